@@ -1,29 +1,50 @@
-import React, { useState } from 'react';
+import React, { useEffect, useMemo, useState } from 'react';
 import { Layout } from './components/Layout';
 import { TextAnalyzer } from './components/TextAnalyzer';
 import { VoiceAnalyzer } from './components/VoiceAnalyzer';
 import { DatasetAnalyzer } from './components/DatasetAnalyzer';
+import { CompareAnalyzer } from './components/CompareAnalyzer';
+import { SentimentProviderProvider } from './components/SentimentProviderContext';
+import { useHistory } from './hooks/useHistory';
 import { AnalyzerMode, HistoryItem } from './types';
 
 const App: React.FC = () => {
   const [mode, setMode] = useState<AnalyzerMode>('text');
-  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const { history, addItem, updateItem, deleteItems, importArchive, retention, setRetention, usage } = useHistory();
   const [loadedItem, setLoadedItem] = useState<HistoryItem | null>(null);
 
+  // Persisted voice items carry the WAV itself; expose it to the player through an object URL
+  const loadedAudioUrl = useMemo(
+    () => (loadedItem?.audio ? URL.createObjectURL(loadedItem.audio) : null),
+    [loadedItem]
+  );
+  useEffect(() => () => {
+    if (loadedAudioUrl) URL.revokeObjectURL(loadedAudioUrl);
+  }, [loadedAudioUrl]);
+
+  const voiceInitialState = useMemo(
+    () => (loadedItem?.mode === 'voice'
+      ? { input: loadedAudioUrl ?? loadedItem.data.input, result: loadedItem.data.result }
+      : undefined),
+    [loadedItem, loadedAudioUrl]
+  );
+
   const handleModeChange = (newMode: AnalyzerMode) => {
     setMode(newMode);
     setLoadedItem(null); // Clear loaded data when manually switching modes
   };
 
-  const addToHistory = (mode: AnalyzerMode, summary: string, input: any, result: any) => {
+  const addToHistory = (mode: AnalyzerMode, summary: string, input: any, result: any, audio?: Blob) => {
     const newItem: HistoryItem = {
-      id: Date.now().toString(),
+      // Regions are saved in the same tick, so the timestamp alone is not unique
+      id: crypto.randomUUID(),
       timestamp: Date.now(),
       mode,
       summary,
-      data: { input, result }
+      data: { input, result },
+      audio,
     };
-    setHistory(prev => [newItem, ...prev]);
+    addItem(newItem);
   };
 
   const loadHistoryItem = (item: HistoryItem) => {
@@ -32,32 +53,46 @@ const App: React.FC = () => {
   };
 
   return (
-    <Layout 
-      currentMode={mode} 
-      setMode={handleModeChange}
-      history={history}
-      onLoadHistory={loadHistoryItem}
-    >
-      {mode === 'text' && (
-        <TextAnalyzer 
-          onAnalyzeComplete={(input, result) => addToHistory('text', input.slice(0, 30) + '...', input, result)}
-          initialState={loadedItem?.mode === 'text' ? loadedItem.data : undefined}
-        />
-      )}
-      {mode === 'voice' && (
-        <VoiceAnalyzer 
-          onAnalyzeComplete={(audioUrl, result) => addToHistory('voice', 'Audio Recording', audioUrl, result)}
-          initialState={loadedItem?.mode === 'voice' ? loadedItem.data : undefined}
-        />
-      )}
-      {mode === 'dataset' && (
-        <DatasetAnalyzer 
-          onAnalyzeComplete={(data) => addToHistory('dataset', `Dataset (${data.length} rows)`, data, null)}
-          initialState={loadedItem?.mode === 'dataset' ? loadedItem.data : undefined}
-        />
-      )}
-    </Layout>
+    <SentimentProviderProvider>
+      <Layout 
+        currentMode={mode} 
+        setMode={handleModeChange}
+        history={history}
+        onLoadHistory={loadHistoryItem}
+        onUpdateHistory={updateItem}
+        onDeleteHistory={deleteItems}
+        onImportArchive={importArchive}
+        retention={retention}
+        onRetentionChange={setRetention}
+        storageUsage={usage}
+      >
+        {mode === 'text' && (
+          <TextAnalyzer 
+            onAnalyzeComplete={(input, result) => addToHistory('text', input.slice(0, 30) + '...', input, result)}
+            initialState={loadedItem?.mode === 'text' ? loadedItem.data : undefined}
+          />
+        )}
+        {mode === 'voice' && (
+          <VoiceAnalyzer 
+            onAnalyzeComplete={(audio, result, label) => addToHistory('voice', label ? `Audio Recording · ${label}` : 'Audio Recording', null, result, audio)}
+            initialState={voiceInitialState}
+          />
+        )}
+        {mode === 'dataset' && (
+          <DatasetAnalyzer 
+            onAnalyzeComplete={(data) => addToHistory('dataset', `Dataset (${data.length} rows)`, data, null)}
+            initialState={loadedItem?.mode === 'dataset' ? loadedItem.data : undefined}
+          />
+        )}
+        {mode === 'compare' && (
+          <CompareAnalyzer
+            onAnalyzeComplete={(texts, results) => addToHistory('compare', `Comparison (${texts.length} texts)`, texts, results)}
+            initialState={loadedItem?.mode === 'compare' ? loadedItem.data : undefined}
+          />
+        )}
+      </Layout>
+    </SentimentProviderProvider>
   );
 };
 
-export default App;
\ No newline at end of file
+export default App;
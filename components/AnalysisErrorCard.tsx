@@ -0,0 +1,39 @@
+import React from 'react';
+import { AlertTriangle, RefreshCw } from 'lucide-react';
+import { ModelOutputError } from '../services/errors';
+
+interface AnalysisErrorCardProps {
+  error: unknown;
+  onRetry: () => void;
+  retrying?: boolean;
+}
+
+export const AnalysisErrorCard: React.FC<AnalysisErrorCardProps> = ({ error, onRetry, retrying }) => {
+  const isInvalidOutput = error instanceof ModelOutputError;
+
+  return (
+    <div className="p-6 rounded-2xl border border-orange-500/50 bg-orange-500/10 text-orange-300 animate-fade-in">
+      <div className="flex items-start gap-3">
+        <AlertTriangle className="w-6 h-6 flex-shrink-0 mt-0.5" />
+        <div className="flex-1 space-y-1">
+          <h3 className="text-lg font-bold">
+            {isInvalidOutput ? 'Model returned invalid output' : 'Analysis failed'}
+          </h3>
+          <p className="text-sm opacity-80">
+            {isInvalidOutput
+              ? `The response could not be used: field "${error.field}" failed validation. Retrying usually resolves this.`
+              : error instanceof Error ? error.message : 'An unknown error occurred. Please check your API key and connection.'}
+          </p>
+        </div>
+        <button
+          onClick={onRetry}
+          disabled={retrying}
+          className="flex items-center gap-2 px-4 py-2 rounded-lg bg-orange-500/20 hover:bg-orange-500/30 disabled:opacity-50 text-sm font-medium transition-colors flex-shrink-0"
+        >
+          <RefreshCw className={`w-4 h-4 ${retrying ? 'animate-spin' : ''}`} />
+          Retry
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,51 @@
+import React from 'react';
+import { EmotionTaxonomy } from '../types';
+import { AnalysisOptions } from '../services/sentimentProvider';
+import { EMOTION_TAXONOMIES } from '../services/emotions';
+
+interface AnalysisOptionsPickerProps {
+  value: AnalysisOptions;
+  onChange: (options: AnalysisOptions) => void;
+  disabled?: boolean;
+}
+
+// Toggles for the optional analyses requested alongside the core sentiment
+export const AnalysisOptionsPicker: React.FC<AnalysisOptionsPickerProps> = ({ value, onChange, disabled }) => (
+  <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-400">
+    <label className="flex items-center gap-2 cursor-pointer select-none">
+      <input
+        type="checkbox"
+        checked={!!value.aspects}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...value, aspects: e.target.checked })}
+        className="accent-primary"
+      />
+      Aspect-based analysis
+    </label>
+    <label className="flex items-center gap-2 cursor-pointer select-none">
+      <input
+        type="checkbox"
+        checked={!!value.translate}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...value, translate: e.target.checked })}
+        className="accent-primary"
+      />
+      English translation
+    </label>
+    <label className="flex items-center gap-2">
+      Emotions
+      <select
+        value={value.emotions ?? ''}
+        disabled={disabled}
+        onChange={(e) => onChange({ ...value, emotions: (e.target.value || undefined) as EmotionTaxonomy | undefined })}
+        className="bg-darker border border-white/10 rounded-lg px-2 py-1 text-gray-200 outline-none focus:border-primary/50"
+        title={value.emotions ? EMOTION_TAXONOMIES[value.emotions].description : undefined}
+      >
+        <option value="">Off</option>
+        {(Object.keys(EMOTION_TAXONOMIES) as EmotionTaxonomy[]).map(taxonomy => (
+          <option key={taxonomy} value={taxonomy}>{EMOTION_TAXONOMIES[taxonomy].label}</option>
+        ))}
+      </select>
+    </label>
+  </div>
+);
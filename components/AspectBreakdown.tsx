@@ -0,0 +1,42 @@
+import React from 'react';
+import { Layers } from 'lucide-react';
+import { AspectSentiment, SentimentType } from '../types';
+
+interface AspectBreakdownProps {
+  aspects: AspectSentiment[];
+}
+
+const ASPECT_STYLES: Record<SentimentType, { badge: string; bar: string }> = {
+  [SentimentType.POSITIVE]: { badge: 'bg-green-500/10 border-green-500/30 text-green-400', bar: 'bg-green-400' },
+  [SentimentType.NEGATIVE]: { badge: 'bg-red-500/10 border-red-500/30 text-red-400', bar: 'bg-red-400' },
+  [SentimentType.NEUTRAL]: { badge: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400', bar: 'bg-yellow-400' },
+};
+
+export const AspectBreakdown: React.FC<AspectBreakdownProps> = ({ aspects }) => (
+  <div className="bg-black/20 rounded-xl p-4 border border-white/5">
+    <div className="flex items-center gap-2 mb-3 opacity-90">
+      <Layers className="w-4 h-4" />
+      <h4 className="text-sm font-semibold uppercase tracking-wide">Aspects</h4>
+    </div>
+    {aspects.length === 0 ? (
+      <p className="text-sm opacity-70">No specific aspects were identified in this text.</p>
+    ) : (
+      <ul className="space-y-3">
+        {aspects.map((aspect, i) => (
+          <li key={i} className="space-y-1.5">
+            <div className="flex items-center justify-between gap-3">
+              <span className="font-semibold capitalize text-white">{aspect.aspect}</span>
+              <span className={`px-2 py-0.5 rounded-md text-xs font-semibold border ${ASPECT_STYLES[aspect.sentiment].badge}`}>
+                {aspect.sentiment} · {(aspect.score * 100).toFixed(0)}%
+              </span>
+            </div>
+            <div className="h-1 bg-black/40 rounded-full overflow-hidden">
+              <div className={`h-full ${ASPECT_STYLES[aspect.sentiment].bar}`} style={{ width: `${aspect.score * 100}%` }} />
+            </div>
+            {aspect.span && <p className="text-sm text-gray-300 italic">"{aspect.span}"</p>}
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
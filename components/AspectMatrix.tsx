@@ -0,0 +1,86 @@
+import React, { useMemo } from 'react';
+import { Layers } from 'lucide-react';
+import { DatasetRow, SentimentType } from '../types';
+import { AspectFilter, analyzeAspects } from '../services/aspectAnalytics';
+
+interface AspectMatrixProps {
+  rows: DatasetRow[];
+  activeFilter: AspectFilter | null;
+  onFilterChange: (filter: AspectFilter | null) => void;
+}
+
+const MATRIX_SIZE = 12;
+const SENTIMENTS = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+
+const SENTIMENT_STYLES: Record<SentimentType, { text: string; rgb: string }> = {
+  [SentimentType.POSITIVE]: { text: 'text-green-400', rgb: '74, 222, 128' },
+  [SentimentType.NEUTRAL]: { text: 'text-yellow-400', rgb: '251, 191, 36' },
+  [SentimentType.NEGATIVE]: { text: 'text-red-400', rgb: '248, 113, 113' },
+};
+
+export const AspectMatrix: React.FC<AspectMatrixProps> = ({ rows, activeFilter, onFilterChange }) => {
+  const aspects = useMemo(() => analyzeAspects(rows), [rows]);
+  const shown = aspects.slice(0, MATRIX_SIZE);
+
+  if (shown.length === 0) return null;
+
+  const maxCell = Math.max(1, ...shown.flatMap(a => SENTIMENTS.map(s => a.bySentiment[s])));
+
+  const select = (filter: AspectFilter) => {
+    const isActive = activeFilter?.key === filter.key && activeFilter.sentiment === filter.sentiment;
+    onFilterChange(isActive ? null : filter);
+  };
+
+  return (
+    <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5 space-y-4">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="bg-primary/20 p-2 rounded-lg text-primary"><Layers className="w-4 h-4" /></span>
+          Aspects × Sentiment
+        </h2>
+        <span className="text-xs text-gray-500">
+          {aspects.length.toLocaleString()} distinct aspects{aspects.length > MATRIX_SIZE ? ` · top ${MATRIX_SIZE} shown` : ''} · click a cell to filter the table
+        </span>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm border-separate border-spacing-1">
+          <thead>
+            <tr>
+              <th className="text-left text-xs uppercase tracking-wider text-gray-500 font-semibold px-2">Aspect</th>
+              {SENTIMENTS.map(sentiment => (
+                <th key={sentiment} className={`text-xs uppercase tracking-wider font-semibold px-2 ${SENTIMENT_STYLES[sentiment].text}`}>{sentiment}</th>
+              ))}
+              <th className="text-xs uppercase tracking-wider text-gray-500 font-semibold px-2">Mentions</th>
+            </tr>
+          </thead>
+          <tbody>
+            {shown.map(aspect => (
+              <tr key={aspect.key}>
+                <th className="text-left font-normal text-gray-300 capitalize px-2 max-w-[200px] truncate" title={aspect.term}>{aspect.term}</th>
+                {SENTIMENTS.map(sentiment => {
+                  const count = aspect.bySentiment[sentiment];
+                  const isActive = activeFilter?.key === aspect.key && activeFilter.sentiment === sentiment;
+                  return (
+                    <td key={sentiment} className="p-0">
+                      <button
+                        onClick={() => select({ key: aspect.key, sentiment })}
+                        disabled={count === 0}
+                        className={`w-full h-9 rounded font-mono text-gray-100 transition-all disabled:cursor-default ${isActive ? 'ring-2 ring-white' : 'hover:ring-1 hover:ring-white/40'}`}
+                        style={{ backgroundColor: count ? `rgba(${SENTIMENT_STYLES[sentiment].rgb}, ${0.1 + 0.6 * (count / maxCell)})` : 'rgba(255, 255, 255, 0.02)' }}
+                        title={`${count} rows mention "${aspect.term}" as ${sentiment}`}
+                      >
+                        {count || ''}
+                      </button>
+                    </td>
+                  );
+                })}
+                <td className="text-center font-mono text-gray-400">{aspect.count}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,244 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { AudioLines, Loader2, Play, RefreshCw, X } from 'lucide-react';
+import { AnalysisResult, SentimentType } from '../types';
+import {
+  MAX_SEGMENTS, SegmentAnalysis, SegmentationMethod, WINDOW_LENGTHS, segmentBySilence, segmentByWindow,
+} from '../services/segmentation';
+import { isAbortError } from '../services/requestQueue';
+import { ReviewBadge } from './ReviewBadge';
+import { EmergencyPanel } from './EmergencyPanel';
+import { SegmentTimeline } from './SegmentTimeline';
+
+interface AutoSegmenterProps {
+  buffer: AudioBuffer;
+  // Analyzes the [start, end] seconds of the recording; the slice is only encoded once this is called
+  analyze: (start: number, end: number, signal: AbortSignal) => Promise<AnalysisResult>;
+  onPlay: (start: number, end: number) => void;
+  // Seconds from the start of the recording, or null when nothing is playing
+  playhead: number | null;
+  disabled?: boolean;
+}
+
+const SENTIMENT_STYLES: Record<SentimentType, string> = {
+  [SentimentType.POSITIVE]: 'bg-green-500/10 border-green-500/30 text-green-400',
+  [SentimentType.NEGATIVE]: 'bg-red-500/10 border-red-500/30 text-red-400',
+  [SentimentType.NEUTRAL]: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400',
+};
+
+// Segments being encoded or analyzed at once; the rest wait, so only a few WAV slices are held in memory
+const SEGMENT_WORKERS = 3;
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 10);
+  return `${mins}:${secs.toString().padStart(2, '0')}.${ms}`;
+};
+
+/**
+ * Splits the whole recording into segments, on pauses or at fixed windows,
+ * and analyzes each one as its own clip. A few workers take segments in
+ * order and the timeline fills in as results arrive.
+ */
+export const AutoSegmenter: React.FC<AutoSegmenterProps> = ({ buffer, analyze, onPlay, playhead, disabled }) => {
+  const [method, setMethod] = useState<SegmentationMethod>('silence');
+  const [windowSeconds, setWindowSeconds] = useState(15);
+  const [segments, setSegments] = useState<SegmentAnalysis[] | null>(null);
+  const [selected, setSelected] = useState<number | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  // Aborted when the run is cancelled or replaced, the recording changes or the component unmounts
+  const controllerRef = useRef<AbortController | null>(null);
+
+  useEffect(() => {
+    setSegments(null);
+    setSelected(null);
+    setNotice(null);
+    return () => controllerRef.current?.abort();
+  }, [buffer]);
+
+  const running = !!segments?.some(s => s.status === 'pending');
+  const failed = segments?.filter(s => s.status === 'error').length ?? 0;
+  const done = segments?.filter(s => s.result) ?? [];
+
+  const analyzeSegments = (items: SegmentAnalysis[], indexes: number[]) => {
+    controllerRef.current?.abort();
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    const { signal } = controller;
+
+    const update = (index: number, patch: Partial<SegmentAnalysis>) => {
+      if (signal.aborted) return;
+      setSegments(prev => prev && prev.map((s, i) => i === index ? { ...s, ...patch } : s));
+    };
+    const remaining = [...indexes];
+    const worker = async () => {
+      for (let index = remaining.shift(); index !== undefined && !signal.aborted; index = remaining.shift()) {
+        const { start, end } = items[index].segment;
+        try {
+          const result = await analyze(start, end, signal);
+          update(index, { status: 'done', result, error: undefined });
+        } catch (error) {
+          if (isAbortError(error)) return;
+          console.error(error);
+          update(index, { status: 'error', error });
+        }
+      }
+    };
+    for (let i = 0; i < Math.min(SEGMENT_WORKERS, remaining.length); i++) worker();
+  };
+
+  const handleRun = () => {
+    const found = method === 'silence' ? segmentBySilence(buffer) : segmentByWindow(buffer.duration, windowSeconds);
+    const items: SegmentAnalysis[] = found.slice(0, MAX_SEGMENTS).map(segment => ({ segment, status: 'pending' }));
+    setNotice(
+      found.length === 0 ? 'No speech detected. Try fixed windows instead.'
+        : found.length > MAX_SEGMENTS ? `Only the first ${MAX_SEGMENTS} of ${found.length} segments are analyzed.`
+        : null
+    );
+    setSegments(items.length > 0 ? items : null);
+    setSelected(null);
+    analyzeSegments(items, items.map((_, i) => i));
+  };
+
+  const handleRetryFailed = () => {
+    if (!segments) return;
+    const indexes = segments.flatMap((s, i) => s.status === 'error' ? [i] : []);
+    setSegments(segments.map(s => s.status === 'error' ? { ...s, status: 'pending' } : s));
+    analyzeSegments(segments, indexes);
+  };
+
+  // Segments still waiting are marked failed, so "Retry failed" picks them up again
+  const handleCancel = () => {
+    controllerRef.current?.abort();
+    setSegments(prev => prev && prev.map(s => s.status === 'pending' ? { ...s, status: 'error', error: new Error('Cancelled.') } : s));
+  };
+
+  const handleSelect = (index: number) => {
+    if (!segments) return;
+    setSelected(index);
+    onPlay(segments[index].segment.start, segments[index].segment.end);
+  };
+
+  const counts = done.reduce((acc, s) => ({ ...acc, [s.result!.sentiment]: (acc[s.result!.sentiment] ?? 0) + 1 }), {} as Partial<Record<SentimentType, number>>);
+  const current = selected !== null && segments ? segments[selected] : null;
+  // The panel follows the first negative segment that raised a category, else the first negative one
+  const negatives = done.filter(s => s.result!.sentiment === SentimentType.NEGATIVE);
+  const urgent = negatives.find(s => s.result!.emergencyCategory !== 'None') ?? negatives[0];
+
+  return (
+    <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <AudioLines className="w-4 h-4" />
+          Automatic Segmentation
+        </h3>
+        <div className="flex flex-wrap items-center gap-2 text-sm">
+          <div className="flex rounded-lg border border-white/10 overflow-hidden">
+            {(['silence', 'window'] as SegmentationMethod[]).map(m => (
+              <button
+                key={m}
+                onClick={() => setMethod(m)}
+                disabled={running}
+                className={`px-3 py-1.5 text-xs transition-colors ${method === m ? 'bg-secondary/20 text-secondary' : 'text-gray-400 hover:bg-white/5'}`}
+              >
+                {m === 'silence' ? 'Split on silence' : 'Fixed windows'}
+              </button>
+            ))}
+          </div>
+          {method === 'window' && (
+            <select
+              value={windowSeconds}
+              onChange={e => setWindowSeconds(Number(e.target.value))}
+              disabled={running}
+              className="bg-darker border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200 outline-none focus:border-secondary"
+              aria-label="Window length"
+            >
+              {WINDOW_LENGTHS.map(s => <option key={s} value={s}>{s}s windows</option>)}
+            </select>
+          )}
+          <button
+            onClick={handleRun}
+            disabled={disabled || running}
+            className="flex items-center gap-2 px-4 py-1.5 rounded-lg text-xs font-medium bg-secondary hover:bg-secondary/90 text-white disabled:opacity-50 disabled:cursor-not-allowed transition-colors"
+          >
+            {running && <Loader2 className="w-3.5 h-3.5 animate-spin" />}
+            {running ? `Analyzing ${done.length}/${segments!.length}` : 'Segment & Analyze'}
+          </button>
+          {running && (
+            <button
+              onClick={handleCancel}
+              className="flex items-center gap-1 px-3 py-1.5 rounded-lg text-xs font-medium bg-white/5 hover:bg-red-500/10 text-gray-300 hover:text-red-400 border border-white/10 transition-colors"
+            >
+              <X className="w-3.5 h-3.5" />
+              Cancel
+            </button>
+          )}
+        </div>
+      </div>
+
+      {notice && <p className="text-xs text-gray-400">{notice}</p>}
+
+      {!segments && !notice && (
+        <p className="text-xs text-gray-500">Splits the whole recording into segments and scores each one, so long calls don't need trimming by hand.</p>
+      )}
+
+      {segments && (
+        <>
+          <div className="flex flex-wrap items-center gap-3 text-xs text-gray-400">
+            <span>{segments.length} segments</span>
+            {[SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE].map(s => counts[s] ? (
+              <span key={s} className={`px-2 py-0.5 rounded-md border ${SENTIMENT_STYLES[s]}`}>{counts[s]} {s}</span>
+            ) : null)}
+            {failed > 0 && !running && (
+              <button onClick={handleRetryFailed} className="ml-auto flex items-center gap-1 text-orange-300 hover:text-orange-200">
+                <RefreshCw className="w-3.5 h-3.5" />
+                Retry {failed} failed
+              </button>
+            )}
+          </div>
+
+          <SegmentTimeline
+            duration={buffer.duration}
+            segments={segments}
+            playhead={playhead}
+            selected={selected}
+            onSelect={handleSelect}
+          />
+
+          {current && (
+            <div className="bg-black/20 rounded-xl p-4 border border-white/5 space-y-2 text-sm">
+              <div className="flex flex-wrap items-center gap-2">
+                <span className="font-semibold text-white">Segment {selected! + 1}</span>
+                <span className="text-[11px] font-mono text-gray-500">{formatTime(current.segment.start)}–{formatTime(current.segment.end)}</span>
+                {current.result && (
+                  <>
+                    <span className={`px-2 py-0.5 rounded-md text-xs font-semibold border ${SENTIMENT_STYLES[current.result.sentiment]}`}>{current.result.sentiment}</span>
+                    <span className="font-mono text-xs text-gray-300">{(current.result.score * 100).toFixed(0)}%</span>
+                    <ReviewBadge result={current.result} />
+                  </>
+                )}
+                <button
+                  onClick={() => onPlay(current.segment.start, current.segment.end)}
+                  className="ml-auto p-1 text-gray-400 hover:text-green-400 transition-colors"
+                  title="Play segment"
+                >
+                  <Play className="w-4 h-4" />
+                </button>
+              </div>
+              {current.status === 'pending' && <p className="text-gray-500">Analyzing…</p>}
+              {current.status === 'error' && (
+                <p className="text-orange-300">{current.error instanceof Error ? current.error.message : 'Analysis failed.'}</p>
+              )}
+              {current.result?.transcript && <p className="italic text-gray-200 leading-relaxed font-serif">"{current.result.transcript}"</p>}
+              {current.result && <p className="text-gray-400 leading-relaxed">{current.result.explanation}</p>}
+            </div>
+          )}
+
+          {urgent && (
+            <EmergencyPanel contextText={urgent.result!.transcript || urgent.result!.explanation} category={urgent.result!.emergencyCategory} />
+          )}
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { Columns, Check, X } from 'lucide-react';
+import { DELIMITER_LABELS, Delimiter, ParsedTable, buildTable } from '../services/csvParser';
+import { COLUMN_ROLE_LABELS, ColumnRole, assignRole, buildDatasetRows, guessColumnRoles } from '../services/columnMapping';
+
+interface ColumnMapperProps {
+  fileName: string;
+  text: string;
+  initialTable: ParsedTable;
+  // The preview covers only the start of a larger file
+  partial: boolean;
+  onConfirm: (table: ParsedTable, roles: ColumnRole[]) => void;
+  onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 5;
+
+export const ColumnMapper: React.FC<ColumnMapperProps> = ({ fileName, text, initialTable, partial, onConfirm, onCancel }) => {
+  const [table, setTable] = useState<ParsedTable>(initialTable);
+  const [roles, setRoles] = useState<ColumnRole[]>(() => guessColumnRoles(initialTable));
+
+  // Re-parsing resets the mapping, since columns may have shifted
+  const reparse = (delimiter: Delimiter | null, hasHeader?: boolean) => {
+    const next = buildTable(text, table.encoding, delimiter, hasHeader);
+    setTable(next);
+    setRoles(guessColumnRoles(next));
+  };
+
+  const rowCount = useMemo(() => buildDatasetRows(table, roles).length, [table, roles]);
+  const hasTextColumn = roles.includes('text');
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-2 text-white">
+          <Columns className="w-4 h-4 text-secondary" />
+          <span className="text-sm font-semibold truncate max-w-[200px]">{fileName}</span>
+        </div>
+        <span className="text-[10px] uppercase tracking-wider text-gray-500 font-mono">{table.encoding}</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3 text-xs">
+        <label className="space-y-1 text-gray-400">
+          <span>Delimiter</span>
+          <select
+            value={table.delimiter ?? ''}
+            onChange={(e) => reparse((e.target.value || null) as Delimiter | null)}
+            className="w-full bg-darker border border-white/10 rounded-lg px-2 py-1.5 text-gray-200 outline-none focus:border-primary/50"
+          >
+            {(Object.keys(DELIMITER_LABELS) as Delimiter[]).map(d => (
+              <option key={d} value={d}>{DELIMITER_LABELS[d]}</option>
+            ))}
+            <option value="">None (one text per line)</option>
+          </select>
+        </label>
+        <label className="flex items-end gap-2 pb-1.5 text-gray-300 cursor-pointer">
+          <input
+            type="checkbox"
+            checked={table.hasHeader}
+            onChange={(e) => reparse(table.delimiter, e.target.checked)}
+            className="accent-secondary"
+          />
+          First row is a header
+        </label>
+      </div>
+
+      <div className="overflow-x-auto rounded-lg border border-white/5">
+        <table className="w-full text-xs">
+          <thead>
+            <tr className="bg-black/30">
+              {table.headers.map((header, col) => (
+                <th key={col} className="p-2 text-left align-top min-w-[120px]">
+                  <div className="text-gray-300 font-semibold truncate mb-1" title={header}>{header}</div>
+                  <select
+                    value={roles[col]}
+                    onChange={(e) => setRoles(assignRole(roles, col, e.target.value as ColumnRole))}
+                    className={`w-full bg-darker border rounded px-1.5 py-1 font-normal outline-none ${
+                      roles[col] === 'text' ? 'border-secondary/50 text-secondary' :
+                      roles[col] === 'ignore' ? 'border-white/5 text-gray-600' :
+                      'border-white/10 text-gray-300'
+                    }`}
+                  >
+                    {(Object.keys(COLUMN_ROLE_LABELS) as ColumnRole[]).map(role => (
+                      <option key={role} value={role}>{COLUMN_ROLE_LABELS[role]}</option>
+                    ))}
+                  </select>
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {table.rows.slice(0, PREVIEW_ROWS).map((row, i) => (
+              <tr key={i} className="border-t border-white/5">
+                {table.headers.map((_, col) => (
+                  <td key={col} className={`p-2 max-w-[200px] truncate ${roles[col] === 'ignore' ? 'text-gray-600' : 'text-gray-400'}`} title={row[col]}>
+                    {row[col]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          onClick={onCancel}
+          className="flex items-center justify-center gap-2 px-4 py-2.5 rounded-xl text-sm text-gray-400 hover:text-white border border-white/10 hover:bg-white/5 transition-colors"
+        >
+          <X className="w-4 h-4" />
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(table, roles)}
+          disabled={!hasTextColumn || rowCount === 0}
+          className="flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-primary to-secondary hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-2.5 rounded-xl text-sm font-medium transition-all shadow-lg shadow-primary/20"
+        >
+          <Check className="w-4 h-4" />
+          {!hasTextColumn ? 'Pick a text column' : partial ? 'Import all rows' : `Use ${rowCount} rows`}
+        </button>
+      </div>
+    </div>
+  );
+};
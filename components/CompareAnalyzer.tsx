@@ -0,0 +1,249 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { GitCompare, Loader2, Plus, Send, Trophy, X } from 'lucide-react';
+import { useSentimentProvider } from './SentimentProviderContext';
+import { AnalysisErrorCard } from './AnalysisErrorCard';
+import { AnalysisResult, SentimentType } from '../types';
+import { MAX_COMPARE_TEXTS, MIN_COMPARE_TEXTS, compareLabel, compareResults } from '../services/comparison';
+
+interface CompareAnalyzerProps {
+  onAnalyzeComplete: (texts: string[], results: AnalysisResult[]) => void;
+  initialState?: { input: string[], result: AnalysisResult[] };
+}
+
+const SENTIMENT_STYLES: Record<SentimentType, string> = {
+  [SentimentType.POSITIVE]: 'bg-green-500/10 border-green-500/30 text-green-400',
+  [SentimentType.NEGATIVE]: 'bg-red-500/10 border-red-500/30 text-red-400',
+  [SentimentType.NEUTRAL]: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400',
+};
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : value < 0 ? '−' : '±'}${Math.abs(value).toFixed(2)}`;
+
+export const CompareAnalyzer: React.FC<CompareAnalyzerProps> = ({ onAnalyzeComplete, initialState }) => {
+  const [inputs, setInputs] = useState<string[]>(['', '']);
+  const [loading, setLoading] = useState(false);
+  // Texts and results of the last run, kept together so editing the inputs doesn't skew the grid
+  const [analyzed, setAnalyzed] = useState<{ texts: string[]; results: AnalysisResult[] } | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const { provider } = useSentimentProvider();
+
+  useEffect(() => {
+    if (initialState) {
+      setInputs(initialState.input);
+      setAnalyzed({ texts: initialState.input, results: initialState.result });
+    }
+  }, [initialState]);
+
+  const comparison = useMemo(
+    () => analyzed ? compareResults(analyzed.texts, analyzed.results) : null,
+    [analyzed]
+  );
+
+  const filled = inputs.filter(t => t.trim()).length;
+  const canAnalyze = !loading && inputs.every(t => t.trim()) && filled >= MIN_COMPARE_TEXTS;
+
+  const updateInput = (index: number, value: string) =>
+    setInputs(prev => prev.map((t, i) => i === index ? value : t));
+
+  const handleAnalyze = async () => {
+    if (!canAnalyze) return;
+    const texts = [...inputs];
+    setLoading(true);
+    setError(null);
+    try {
+      // All texts go through the provider's queue together; one failure fails the comparison.
+      // The grid only compares the core result, so no optional analyses are requested.
+      const results = await Promise.all(texts.map(text => provider.analyzeText(text)));
+      setAnalyzed({ texts, results });
+      onAnalyzeComplete(texts, results);
+    } catch (error) {
+      console.error(error);
+      setAnalyzed(null);
+      setError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <div className="max-w-7xl mx-auto space-y-6">
+      <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5">
+        <h2 className="text-xl font-semibold mb-4 text-white flex items-center gap-2">
+          <span className="bg-primary/20 p-2 rounded-lg text-primary"><GitCompare className="w-5 h-5" /></span>
+          Compare Texts
+        </h2>
+
+        <div className={`grid grid-cols-1 gap-4 ${inputs.length > 2 ? 'lg:grid-cols-3' : 'md:grid-cols-2'}`}>
+          {inputs.map((text, i) => (
+            <div key={i} className="relative">
+              <div className="flex items-center justify-between mb-1">
+                <span className="text-xs uppercase tracking-wider font-semibold text-gray-400">
+                  {compareLabel(i)}{i === 0 && <span className="normal-case tracking-normal font-normal text-gray-500"> · baseline</span>}
+                </span>
+                {inputs.length > MIN_COMPARE_TEXTS && (
+                  <button
+                    onClick={() => setInputs(prev => prev.filter((_, j) => j !== i))}
+                    className="p-1 text-gray-500 hover:text-red-400 transition-colors"
+                    title={`Remove ${compareLabel(i)}`}
+                  >
+                    <X className="w-3 h-3" />
+                  </button>
+                )}
+              </div>
+              <textarea
+                className="w-full bg-darker text-gray-200 rounded-xl p-3 min-h-[140px] border border-white/10 focus:border-primary focus:ring-1 focus:ring-primary outline-none transition-all resize-y text-sm"
+                placeholder={i === 0 ? 'Paste the original version...' : 'Paste an alternative version...'}
+                value={text}
+                onChange={(e) => updateInput(i, e.target.value)}
+              />
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-4 flex flex-wrap items-center justify-between gap-4">
+          <div>
+            {inputs.length < MAX_COMPARE_TEXTS && (
+              <button
+                onClick={() => setInputs(prev => [...prev, ''])}
+                className="flex items-center gap-1 text-sm text-gray-400 hover:text-white px-3 py-1.5 rounded-lg border border-white/10 hover:bg-white/5 transition-colors"
+              >
+                <Plus className="w-4 h-4" />
+                Add text
+              </button>
+            )}
+          </div>
+          <button
+            onClick={handleAnalyze}
+            disabled={!canAnalyze}
+            className="flex items-center gap-2 bg-gradient-to-r from-primary to-secondary hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-6 py-2.5 rounded-lg font-medium transition-all shadow-lg shadow-primary/25"
+          >
+            {loading ? <Loader2 className="animate-spin w-5 h-5" /> : <Send className="w-5 h-5" />}
+            {loading ? 'Processing...' : `Compare ${inputs.length} Texts`}
+          </button>
+        </div>
+      </div>
+
+      {error && !analyzed && (
+        <AnalysisErrorCard error={error} onRetry={handleAnalyze} retrying={loading} />
+      )}
+
+      {comparison && (
+        <>
+          {/* Ranking */}
+          <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5 animate-fade-in">
+            <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+              <Trophy className="w-4 h-4 text-yellow-400" />
+              Most Positive
+            </h3>
+            <ol className="space-y-2">
+              {comparison.ranking.map(entry => (
+                <li key={entry.index} className="flex items-center gap-3">
+                  <span className={`w-6 text-center font-mono font-bold ${entry.rank === 1 ? 'text-yellow-400' : 'text-gray-500'}`}>{entry.rank}</span>
+                  <span className="w-16 text-sm font-semibold text-white shrink-0">{entry.label}</span>
+                  <span className="flex-1 text-sm text-gray-400 truncate" title={entry.text}>{entry.text}</span>
+                  {/* Signed score bar centred on neutral */}
+                  <div className="w-40 h-2 bg-black/40 rounded-full relative shrink-0">
+                    <div className="absolute top-0 bottom-0 left-1/2 w-px bg-white/20" />
+                    <div
+                      className={`absolute top-0 bottom-0 rounded-full ${entry.signedScore >= 0 ? 'bg-green-400' : 'bg-red-400'}`}
+                      style={entry.signedScore >= 0
+                        ? { left: '50%', width: `${entry.signedScore * 50}%` }
+                        : { right: '50%', width: `${-entry.signedScore * 50}%` }}
+                    />
+                  </div>
+                  <span className="w-14 text-right font-mono text-sm text-gray-300">{formatSigned(entry.signedScore)}</span>
+                </li>
+              ))}
+            </ol>
+          </div>
+
+          {/* Comparison grid */}
+          <div className="bg-card rounded-2xl shadow-lg border border-white/5 overflow-x-auto animate-fade-in">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-white/5">
+                  <th className="p-4 w-32"></th>
+                  {comparison.entries.map(entry => (
+                    <th key={entry.index} className="p-4 text-left font-semibold text-white min-w-[220px]">
+                      {entry.label}
+                      <span className="ml-2 text-xs font-normal text-gray-500">#{entry.rank}</span>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-white/5 align-top">
+                <tr>
+                  <th className="p-4 text-left text-xs uppercase tracking-wider text-gray-500 font-semibold">Sentiment</th>
+                  {comparison.entries.map(entry => (
+                    <td key={entry.index} className="p-4">
+                      <span className={`px-2 py-1 rounded-md text-xs font-semibold border ${SENTIMENT_STYLES[entry.result.sentiment]}`}>
+                        {entry.result.sentiment}
+                      </span>
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="p-4 text-left text-xs uppercase tracking-wider text-gray-500 font-semibold">Score</th>
+                  {comparison.entries.map(entry => (
+                    <td key={entry.index} className="p-4 font-mono text-gray-200">
+                      {(entry.result.score * 100).toFixed(1)}%
+                      <span className="ml-2 text-xs text-gray-500">({formatSigned(entry.signedScore)})</span>
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="p-4 text-left text-xs uppercase tracking-wider text-gray-500 font-semibold">Δ vs {compareLabel(0)}</th>
+                  {comparison.entries.map(entry => (
+                    <td key={entry.index} className="p-4 font-mono">
+                      {entry.index === 0 ? (
+                        <span className="text-gray-600">baseline</span>
+                      ) : (
+                        <span className={entry.delta > 0.005 ? 'text-green-400' : entry.delta < -0.005 ? 'text-red-400' : 'text-gray-400'}>
+                          {formatSigned(entry.delta)}
+                        </span>
+                      )}
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="p-4 text-left text-xs uppercase tracking-wider text-gray-500 font-semibold">Keywords</th>
+                  {comparison.entries.map(entry => (
+                    <td key={entry.index} className="p-4">
+                      <div className="flex flex-wrap gap-1.5">
+                        {entry.result.keywords.map((k, i) => {
+                          const unique = entry.uniqueKeywords.includes(k);
+                          return (
+                            <span
+                              key={i}
+                              className={`px-2 py-0.5 rounded-full text-xs border ${unique ? 'bg-secondary/15 border-secondary/30 text-secondary' : 'bg-white/5 border-white/10 text-gray-400'}`}
+                              title={unique ? `Only ${entry.label} mentions this` : 'Also mentioned by another text'}
+                            >
+                              {k}
+                            </span>
+                          );
+                        })}
+                        {entry.result.keywords.length === 0 && <span className="text-gray-600">—</span>}
+                      </div>
+                    </td>
+                  ))}
+                </tr>
+                <tr>
+                  <th className="p-4 text-left text-xs uppercase tracking-wider text-gray-500 font-semibold">Explanation</th>
+                  {comparison.entries.map(entry => (
+                    <td key={entry.index} className="p-4 text-gray-300 leading-relaxed">{entry.result.explanation}</td>
+                  ))}
+                </tr>
+              </tbody>
+            </table>
+            <div className="px-4 py-3 border-t border-white/5 text-xs text-gray-500 flex flex-wrap items-center gap-2">
+              <span className="px-2 py-0.5 rounded-full border bg-secondary/15 border-secondary/30 text-secondary">unique</span>
+              keywords only that text mentions.
+              {comparison.sharedKeywords.length > 0 && (
+                <span>Shared by all: <span className="text-gray-300">{comparison.sharedKeywords.join(', ')}</span></span>
+              )}
+            </div>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
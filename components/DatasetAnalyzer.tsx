@@ -1,7 +1,38 @@
-import React, { useState, useEffect } from 'react';
-import { Upload, FileText, Play, Loader2, Download, Filter, X, RefreshCcw, Trash2, PieChart as PieChartIcon, CheckCircle2, AlertCircle, HelpCircle, Search } from 'lucide-react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
+import { Upload, FileText, Play, Loader2, Download, Filter, X, RefreshCcw, Trash2, PieChart as PieChartIcon, Search, Pause, Eye } from 'lucide-react';
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from 'recharts';
-import { analyzeBatch } from '../services/geminiService';
+import { useSentimentProvider } from './SentimentProviderContext';
+import { ColumnMapper } from './ColumnMapper';
+import { ResultsTable } from './ResultsTable';
+import { EvaluationPanel } from './EvaluationPanel';
+import { ExportDialog } from './ExportDialog';
+import { TrendsPanel } from './TrendsPanel';
+import { KeywordPanel } from './KeywordPanel';
+import { AspectMatrix } from './AspectMatrix';
+import { AnalysisOptionsPicker } from './AnalysisOptionsPicker';
+import { EmotionRadar } from './EmotionRadar';
+import { LanguagePanel } from './LanguagePanel';
+import { isAbortError } from '../services/requestQueue';
+import { ParsedTable, parseDelimitedSample, streamDelimitedFile } from '../services/csvParser';
+import { ColumnRole, createRowMapper } from '../services/columnMapping';
+import { EvaluationFilter, evaluateDataset, matchesEvaluationFilter } from '../services/evaluation';
+import { countDatedRows } from '../services/trends';
+import { rowHasKeyword } from '../services/keywordAnalytics';
+import { AspectFilter, hasAspectResults, matchesAspectFilter } from '../services/aspectAnalytics';
+import { summarizeEmotions } from '../services/emotions';
+import { rowLanguage } from '../services/languageBreakdown';
+import { languageName } from '../services/languages';
+import { needsReview } from '../services/review';
+import { AnalysisOptions } from '../services/sentimentProvider';
+import {
+  DatasetJob,
+  appendJobRows,
+  checkpointDatasetJob,
+  createDatasetJob,
+  deleteDatasetJob,
+  loadResumableJob,
+  saveDatasetJob,
+} from '../services/datasetJobs';
 import { DatasetRow, SentimentType } from '../types';
 
 interface DatasetAnalyzerProps {
@@ -15,117 +46,281 @@ const COLORS = {
   [SentimentType.NEUTRAL]: '#fbbf24',
 };
 
+// Rows handed to the provider per analyzeBatch call, so pausing never leaves a huge backlog queued
+const BATCH_WINDOW = 200;
+// How often results are flushed to the UI and checkpointed to IndexedDB
+const CHECKPOINT_INTERVAL_MS = 1000;
+
+type RunState = 'idle' | 'importing' | 'running' | 'paused';
+
 export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeComplete, initialState }) => {
   const [data, setData] = useState<DatasetRow[]>([]);
   const [fileName, setFileName] = useState<string | null>(null);
-  const [analyzing, setAnalyzing] = useState(false);
-  const [progress, setProgress] = useState(0);
+  const [runState, setRunState] = useState<RunState>('idle');
+  const [importProgress, setImportProgress] = useState(0);
   const [filter, setFilter] = useState<SentimentType | null>(null);
+  const [evaluationFilter, setEvaluationFilter] = useState<EvaluationFilter | null>(null);
+  // Normalized keyword picked in the keyword panel
+  const [keywordFilter, setKeywordFilter] = useState<string | null>(null);
+  const [aspectFilter, setAspectFilter] = useState<AspectFilter | null>(null);
+  const [languageFilter, setLanguageFilter] = useState<string | null>(null);
+  // Only rows flagged for human review
+  const [reviewOnly, setReviewOnly] = useState(false);
+  const [options, setOptions] = useState<AnalysisOptions>({});
   const [searchQuery, setSearchQuery] = useState('');
+  // Sampled upload awaiting column mapping
+  const [pendingUpload, setPendingUpload] = useState<{ file: File; table: ParsedTable; text: string; partial: boolean } | null>(null);
+  const [uploadError, setUploadError] = useState<string | null>(null);
+  const [notice, setNotice] = useState<string | null>(null);
+  const [exportOpen, setExportOpen] = useState(false);
+  const { provider } = useSentimentProvider();
+  // Working copy mutated as results arrive; `data` is a throttled snapshot of it
+  const rowsRef = useRef<DatasetRow[]>([]);
+  const jobRef = useRef<DatasetJob | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  // Why the current run was aborted; unmounting leaves it null so the job stays resumable
+  const stopReasonRef = useRef<'pause' | 'cancel' | null>(null);
+
+  const showRows = (rows: DatasetRow[]) => {
+    rowsRef.current = rows;
+    setData([...rows]);
+  };
 
   useEffect(() => {
     if (initialState?.input) {
-      setData(initialState.input);
+      jobRef.current = null;
+      showRows(initialState.input);
+      return;
     }
+
+    // Restore a run interrupted by a reload, crash or leaving the view
+    let cancelled = false;
+    loadResumableJob()
+      .then(saved => {
+        if (cancelled || !saved) return;
+        jobRef.current = saved.job;
+        showRows(saved.rows);
+        setFileName(saved.job.fileName);
+        setOptions(saved.job.options ?? {});
+        setRunState('paused');
+        setNotice(`Restored an unfinished run: ${saved.job.completedRows} of ${saved.job.totalRows} rows analyzed.`);
+      })
+      .catch(err => console.error("Failed to load dataset checkpoint", err));
+    return () => { cancelled = true; };
   }, [initialState]);
 
-  const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Stop any in-flight batch when leaving the view; the checkpoint is kept
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const discardJob = () => {
+    const job = jobRef.current;
+    jobRef.current = null;
+    if (job) {
+      deleteDatasetJob(job.id).catch(err => console.error("Failed to delete dataset checkpoint", err));
+    }
+  };
+
+  const handleFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    e.target.value = '';
     if (!file) return;
 
     setFileName(file.name);
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      const text = event.target?.result as string;
-      const rows = text.split('\n').filter(r => r.trim().length > 0);
-      
-      // Limit to 50 rows to prevent API rate limits in this demo
-      const limit = 50;
-      const limitedRows = rows.slice(0, limit);
-      
-      const parsedData: DatasetRow[] = limitedRows.map((row, idx) => ({
-        id: idx,
-        text: row.replace(/^"|"$/g, '').trim(), // Remove surrounding quotes if present
-      }));
-      setData(parsedData);
-      setFilter(null);
-      setSearchQuery('');
-      setProgress(0);
-    };
-    reader.readAsText(file);
+    setUploadError(null);
+    try {
+      const sample = await parseDelimitedSample(file);
+      if (sample.table.rows.length === 0) {
+        setUploadError("The selected file contains no rows.");
+        return;
+      }
+      setPendingUpload({ file, ...sample });
+    } catch (err) {
+      console.error("Failed to parse dataset", err);
+      setUploadError("The selected file could not be read.");
+    }
+  };
+
+  // Streams the whole file through the chosen mapping, writing rows to the checkpoint as they are parsed
+  const handleMappingConfirm = async (table: ParsedTable, roles: ColumnRole[]) => {
+    if (!pendingUpload) return;
+    const { file } = pendingUpload;
+    setPendingUpload(null);
+    setFilter(null);
+    setEvaluationFilter(null);
+    setKeywordFilter(null);
+    setAspectFilter(null);
+    setLanguageFilter(null);
+    setReviewOnly(false);
+    setSearchQuery('');
+    setNotice(null);
+    setImportProgress(0);
+    setRunState('importing');
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    const mapRow = createRowMapper(table.headers, roles);
+    const rows: DatasetRow[] = [];
+
+    try {
+      const job = await createDatasetJob(file.name);
+      jobRef.current = job;
+      await streamDelimitedFile(file, table, async (records, bytesRead) => {
+        if (controller.signal.aborted) throw new DOMException('Import aborted', 'AbortError');
+        const batch: DatasetRow[] = [];
+        records.forEach(record => {
+          const row = mapRow(record, rows.length + batch.length);
+          if (row) batch.push(row);
+        });
+        await appendJobRows(job.id, batch);
+        rows.push(...batch);
+        setImportProgress(Math.round((bytesRead / file.size) * 100));
+      });
+
+      job.totalRows = rows.length;
+      await saveDatasetJob(job);
+      showRows(rows);
+      setRunState('idle');
+    } catch (err) {
+      if (!isAbortError(err)) {
+        console.error("Failed to import dataset", err);
+        setUploadError("The selected file could not be imported.");
+      }
+      discardJob();
+      showRows([]);
+      setFileName(null);
+      setRunState('idle');
+    } finally {
+      abortRef.current = null;
+    }
+  };
+
+  const handleMappingCancel = () => {
+    setPendingUpload(null);
+    setFileName(null);
   };
 
   const handleClear = () => {
-    setData([]);
+    stopReasonRef.current = 'cancel';
+    abortRef.current?.abort();
+    discardJob();
+    showRows([]);
     setFileName(null);
     setFilter(null);
+    setEvaluationFilter(null);
+    setKeywordFilter(null);
+    setAspectFilter(null);
+    setLanguageFilter(null);
+    setReviewOnly(false);
     setSearchQuery('');
-    setProgress(0);
+    setUploadError(null);
+    setNotice(null);
+    setRunState('idle');
   };
 
   const runAnalysis = async () => {
-    if (data.length === 0) return;
-    setAnalyzing(true);
-    setProgress(0);
-    
-    const updatedData = [...data];
-    const batchSize = 5; // Process in small chunks
-    
-    for (let i = 0; i < updatedData.length; i += batchSize) {
-      const chunk = updatedData.slice(i, i + batchSize);
-      // Only process items that haven't been analyzed yet
-      const pendingIndices = chunk.map((_, idx) => i + idx).filter(idx => !updatedData[idx].result);
-      
-      if (pendingIndices.length === 0) continue;
-
-      const textsToAnalyze = pendingIndices.map(idx => updatedData[idx].text);
-
-      try {
-        const results = await analyzeBatch(textsToAnalyze);
-        
-        results.forEach((res, resIdx) => {
-          const globalIndex = pendingIndices[resIdx];
-          if (updatedData[globalIndex]) {
-            updatedData[globalIndex] = { ...updatedData[globalIndex], result: res };
-          }
+    const rows = rowsRef.current;
+    if (rows.length === 0) return;
+    setNotice(null);
+    setRunState('running');
+    stopReasonRef.current = null;
+
+    const controller = new AbortController();
+    abortRef.current = controller;
+    // Dirty rows are flushed to the UI and the checkpoint together
+    const dirty = new Set<number>();
+    let job = jobRef.current;
+
+    const flush = async () => {
+      if (dirty.size === 0 || !job || jobRef.current !== job) return;
+      const changed = [...dirty].map(idx => rows[idx]);
+      dirty.clear();
+      job.completedRows = rows.filter(r => r.result).length;
+      setData([...rows]);
+      await checkpointDatasetJob(job, changed);
+    };
+    const timer = setInterval(() => {
+      flush().catch(err => console.error("Failed to checkpoint dataset", err));
+    }, CHECKPOINT_INTERVAL_MS);
+
+    try {
+      if (!job) {
+        // Datasets restored from history have no checkpoint yet
+        job = await createDatasetJob(fileName || 'Dataset');
+        job.totalRows = rows.length;
+        await appendJobRows(job.id, rows);
+        jobRef.current = job;
+      }
+      job.status = 'running';
+      job.options = options;
+      await saveDatasetJob(job);
+
+      // Only process items that haven't been analyzed yet, including rows that failed last time
+      const pendingIndices = rows.map((_, idx) => idx).filter(idx => !rows[idx].result);
+      for (let start = 0; start < pendingIndices.length; start += BATCH_WINDOW) {
+        const slice = pendingIndices.slice(start, start + BATCH_WINDOW);
+        // Failed rows come back as neutral placeholders; the queue's events tell them apart
+        const failedRows = new Set<number>();
+        // Rate limiting, retries and concurrency are handled by the provider's request queue
+        await provider.analyzeBatch(slice.map(idx => rows[idx].text), {
+          ...job.options,
+          signal: controller.signal,
+          onJobEvent: (resIdx, event) => {
+            if (event.status === 'failed') failedRows.add(resIdx);
+          },
+          onResult: (resIdx, res) => {
+            const globalIndex = slice[resIdx];
+            const { failed, ...row } = rows[globalIndex];
+            rows[globalIndex] = failedRows.has(resIdx) ? { ...row, failed: true } : { ...row, result: res };
+            dirty.add(globalIndex);
+          },
         });
-        
-        setData([...updatedData]);
-        setProgress(Math.min(100, Math.round(((i + batchSize) / updatedData.length) * 100)));
-        
-        // Small delay to be gentle on the API
-        await new Promise(r => setTimeout(r, 500));
-      } catch (e) {
+      }
+
+      clearInterval(timer);
+      await flush();
+      discardJob();
+      setRunState('idle');
+      const failedCount = rows.filter(r => r.failed).length;
+      if (failedCount > 0) {
+        setNotice(`${failedCount.toLocaleString()} rows failed and have no result. Start the analysis again to retry them.`);
+      }
+      onAnalyzeComplete([...rows]);
+    } catch (e) {
+      clearInterval(timer);
+      await flush().catch(err => console.error("Failed to checkpoint dataset", err));
+      if (!isAbortError(e)) {
         console.error("Batch failed", e);
+        setNotice("The run stopped because of an error. Progress was saved; resume to continue.");
+      }
+      if (stopReasonRef.current === 'cancel') {
+        discardJob();
+        setRunState('idle');
+      } else if (job && jobRef.current === job) {
+        job.status = 'paused';
+        await saveDatasetJob(job).catch(err => console.error("Failed to checkpoint dataset", err));
+        setRunState('paused');
       }
+    } finally {
+      clearInterval(timer);
+      abortRef.current = null;
     }
+  };
 
-    setAnalyzing(false);
-    setProgress(100);
-    onAnalyzeComplete(updatedData);
+  const pauseAnalysis = () => {
+    stopReasonRef.current = 'pause';
+    abortRef.current?.abort();
   };
 
-  const downloadCSV = () => {
-    const headers = ['ID', 'Text', 'Sentiment', 'Confidence', 'Keywords', 'Explanation'];
-    const csvRows = data.map(row => {
-      const r = row.result;
-      return [
-        row.id + 1,
-        `"${row.text.replace(/"/g, '""')}"`,
-        r?.sentiment || 'Pending',
-        r ? (r.score * 100).toFixed(1) + '%' : '',
-        `"${r?.keywords.join(', ').replace(/"/g, '""') || ''}"`,
-        `"${r?.explanation.replace(/"/g, '""') || ''}"`
-      ].join(',');
-    });
-    
-    const csvContent = [headers.join(','), ...csvRows].join('\n');
-    const blob = new Blob([csvContent], { type: 'text/csv;charset=utf-8;' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `sentiment_analysis_${new Date().toISOString().slice(0,10)}.csv`;
-    link.click();
+  const cancelAnalysis = () => {
+    stopReasonRef.current = 'cancel';
+    abortRef.current?.abort();
+  };
+
+  // Cancelling a paused run only drops its checkpoint; results so far stay in view
+  const handleCancelPaused = () => {
+    discardJob();
+    setNotice(null);
+    setRunState('idle');
   };
 
   // Statistics
@@ -134,8 +329,9 @@ export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeCompl
       acc[curr.result.sentiment] = (acc[curr.result.sentiment] || 0) + 1;
       acc.analyzed++;
     }
+    if (curr.failed) acc.failed++;
     return acc;
-  }, { [SentimentType.POSITIVE]: 0, [SentimentType.NEGATIVE]: 0, [SentimentType.NEUTRAL]: 0, analyzed: 0 });
+  }, { [SentimentType.POSITIVE]: 0, [SentimentType.NEGATIVE]: 0, [SentimentType.NEUTRAL]: 0, analyzed: 0, failed: 0 });
 
   const chartData = [
     { name: SentimentType.POSITIVE, value: stats[SentimentType.POSITIVE] },
@@ -143,16 +339,37 @@ export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeCompl
     { name: SentimentType.NEUTRAL, value: stats[SentimentType.NEUTRAL] },
   ].filter(d => d.value > 0);
 
-  const filteredData = data.filter(d => {
+  const progress = data.length ? Math.round((stats.analyzed / data.length) * 100) : 0;
+
+  const datedRows = useMemo(() => countDatedRows(data), [data]);
+
+  // Only computed when the file has a label column mapped
+  const evaluation = useMemo(() => evaluateDataset(data), [data]);
+
+  const filteredData = useMemo(() => data.filter(d => {
     const matchesSentiment = filter ? d.result?.sentiment === filter : true;
     const matchesSearch = searchQuery 
       ? d.text.toLowerCase().includes(searchQuery.toLowerCase()) 
       : true;
-    return matchesSentiment && matchesSearch;
-  });
+    const matchesEvaluation = evaluationFilter ? matchesEvaluationFilter(d, evaluationFilter) : true;
+    const matchesKeyword = keywordFilter ? rowHasKeyword(d, keywordFilter) : true;
+    const matchesAspect = aspectFilter ? matchesAspectFilter(d, aspectFilter) : true;
+    const matchesLanguage = languageFilter ? !!d.result && rowLanguage(d) === languageFilter : true;
+    const matchesReview = reviewOnly ? needsReview(d.result) : true;
+    return matchesSentiment && matchesSearch && matchesEvaluation && matchesKeyword && matchesAspect && matchesLanguage && matchesReview;
+  }), [data, filter, searchQuery, evaluationFilter, keywordFilter, aspectFilter, languageFilter, reviewOnly]);
+
+  const reviewCount = useMemo(() => data.filter(d => needsReview(d.result)).length, [data]);
+
+  const hasAspects = useMemo(() => hasAspectResults(data), [data]);
+  const emotionSummary = useMemo(() => summarizeEmotions(data), [data]);
+  const hasLanguages = useMemo(() => data.some(d => d.result?.language), [data]);
 
   return (
     <div className="max-w-7xl mx-auto space-y-6">
+      {exportOpen && (
+        <ExportDialog rows={data} viewRows={filteredData} fileName={fileName} onClose={() => setExportOpen(false)} />
+      )}
       <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
         
         {/* Left Column: Upload & Controls */}
@@ -164,16 +381,43 @@ export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeCompl
               Dataset
             </h2>
             
-            {!data.length ? (
+            {pendingUpload && fileName ? (
+              <ColumnMapper
+                fileName={fileName}
+                text={pendingUpload.text}
+                initialTable={pendingUpload.table}
+                partial={pendingUpload.partial}
+                onConfirm={handleMappingConfirm}
+                onCancel={handleMappingCancel}
+              />
+            ) : runState === 'importing' ? (
+              <div className="space-y-2 py-6">
+                <div className="flex justify-between text-xs text-gray-400">
+                  <span className="flex items-center gap-2"><Loader2 className="w-3 h-3 animate-spin" /> Reading {fileName}...</span>
+                  <span>{importProgress}%</span>
+                </div>
+                <div className="h-2 bg-black/40 rounded-full overflow-hidden">
+                  <div className="h-full bg-blue-400 transition-all duration-300 ease-out" style={{ width: `${importProgress}%` }}></div>
+                </div>
+                <button
+                  onClick={handleClear}
+                  className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-red-500/10 text-gray-300 hover:text-red-400 px-4 py-2 rounded-xl text-sm font-medium transition-all border border-white/10"
+                >
+                  <X className="w-4 h-4" />
+                  Cancel
+                </button>
+              </div>
+            ) : !data.length ? (
               <label className="flex flex-col items-center justify-center w-full h-48 border-2 border-dashed border-white/10 rounded-xl cursor-pointer hover:bg-white/5 transition-colors group">
                 <div className="flex flex-col items-center justify-center pt-5 pb-6">
                   <div className="p-3 bg-secondary/10 rounded-full mb-3 group-hover:scale-110 transition-transform">
                     <Upload className="w-8 h-8 text-secondary" />
                   </div>
                   <p className="mb-2 text-sm text-gray-400"><span className="font-semibold text-white">Click to upload</span> or drag and drop</p>
-                  <p className="text-xs text-gray-500">CSV or Text files (Max 50 rows)</p>
+                  <p className="text-xs text-gray-500">CSV, TSV or Text files</p>
+                  {uploadError && <p className="mt-2 text-xs text-red-400">{uploadError}</p>}
                 </div>
-                <input type="file" className="hidden" accept=".csv,.txt" onChange={handleFileUpload} />
+                <input type="file" className="hidden" accept=".csv,.tsv,.txt" onChange={handleFileUpload} />
               </label>
             ) : (
               <div className="space-y-4">
@@ -190,7 +434,15 @@ export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeCompl
                   </button>
                 </div>
 
-                {!analyzing && stats.analyzed < data.length && (
+                {notice && (
+                  <p className="text-xs text-gray-400 bg-white/5 border border-white/10 rounded-lg px-3 py-2">{notice}</p>
+                )}
+
+                {runState === 'idle' && stats.analyzed < data.length && (
+                  <AnalysisOptionsPicker value={options} onChange={setOptions} />
+                )}
+
+                {runState === 'idle' && stats.analyzed < data.length && (
                   <button
                     onClick={runAnalysis}
                     className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-primary to-secondary hover:opacity-90 text-white px-4 py-3 rounded-xl font-medium transition-all shadow-lg shadow-primary/20"
@@ -200,28 +452,57 @@ export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeCompl
                   </button>
                 )}
 
-                {analyzing && (
+                {(runState === 'running' || runState === 'paused') && (
                   <div className="space-y-2">
                     <div className="flex justify-between text-xs text-gray-400">
-                      <span>Analyzing...</span>
+                      <span>
+                        {runState === 'running' ? 'Analyzing...' : 'Paused'} {stats.analyzed.toLocaleString()} / {data.length.toLocaleString()}
+                        {stats.failed > 0 && <span className="text-orange-300"> · {stats.failed.toLocaleString()} failed</span>}
+                      </span>
                       <span>{progress}%</span>
                     </div>
                     <div className="h-2 bg-black/40 rounded-full overflow-hidden">
                       <div 
-                        className="h-full bg-secondary transition-all duration-500 ease-out"
+                        className={`h-full transition-all duration-500 ease-out ${runState === 'running' ? 'bg-secondary' : 'bg-gray-500'}`}
                         style={{ width: `${progress}%` }}
                       ></div>
                     </div>
+                    <div className="flex gap-2">
+                      {runState === 'running' ? (
+                        <button
+                          onClick={pauseAnalysis}
+                          className="flex-1 flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-gray-300 hover:text-white px-4 py-2 rounded-xl text-sm font-medium transition-all border border-white/10"
+                        >
+                          <Pause className="w-4 h-4" />
+                          Pause
+                        </button>
+                      ) : (
+                        <button
+                          onClick={runAnalysis}
+                          className="flex-1 flex items-center justify-center gap-2 bg-gradient-to-r from-primary to-secondary hover:opacity-90 text-white px-4 py-2 rounded-xl text-sm font-medium transition-all"
+                        >
+                          <Play className="w-4 h-4" />
+                          Resume
+                        </button>
+                      )}
+                      <button
+                        onClick={runState === 'running' ? cancelAnalysis : handleCancelPaused}
+                        className="flex-1 flex items-center justify-center gap-2 bg-white/5 hover:bg-red-500/10 text-gray-300 hover:text-red-400 px-4 py-2 rounded-xl text-sm font-medium transition-all border border-white/10"
+                      >
+                        <X className="w-4 h-4" />
+                        Cancel
+                      </button>
+                    </div>
                   </div>
                 )}
 
-                {stats.analyzed > 0 && !analyzing && (
+                {stats.analyzed > 0 && runState !== 'running' && (
                   <button
-                    onClick={downloadCSV}
+                    onClick={() => setExportOpen(true)}
                     className="w-full flex items-center justify-center gap-2 bg-white/5 hover:bg-white/10 text-white px-4 py-3 rounded-xl font-medium transition-all border border-white/10"
                   >
                     <Download className="w-4 h-4" />
-                    Export CSV
+                    Export Results
                   </button>
                 )}
               </div>
@@ -257,8 +538,29 @@ export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeCompl
                   </PieChart>
                 </ResponsiveContainer>
               </div>
+
+              {emotionSummary && (
+                <div className="mt-4 space-y-3">
+                  <EmotionRadar emotions={emotionSummary.average} title="Average emotions" height={200} />
+                  <div className="flex flex-wrap gap-2">
+                    {emotionSummary.dominant.map(({ emotion, count }) => (
+                      <span key={emotion} className="px-2 py-1 rounded-md bg-white/5 border border-white/10 text-xs text-gray-300 capitalize" title={`Most likely emotion in ${count} of ${emotionSummary.rows} rows`}>
+                        {emotion} <span className="font-mono text-gray-500">{count}</span>
+                      </span>
+                    ))}
+                  </div>
+                </div>
+              )}
             </div>
           )}
+
+          {hasLanguages && (
+            <LanguagePanel rows={data} activeLanguage={languageFilter} onSelectLanguage={setLanguageFilter} />
+          )}
+
+          {evaluation && (
+            <EvaluationPanel report={evaluation} activeFilter={evaluationFilter} onFilterChange={setEvaluationFilter} />
+          )}
         </div>
 
         {/* Right Column: Data Table */}
@@ -289,9 +591,34 @@ export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeCompl
                   )}
                </div>
                
-               {filter && (
+               {keywordFilter && (
+                 <span className="flex items-center gap-1 text-xs px-3 py-2 bg-secondary/10 border border-secondary/20 rounded-lg whitespace-nowrap text-secondary">
+                   Keyword: {keywordFilter}
+                 </span>
+               )}
+
+               {aspectFilter && (
+                 <span className="flex items-center gap-1 text-xs px-3 py-2 bg-primary/10 border border-primary/20 rounded-lg whitespace-nowrap text-primary">
+                   Aspect: {aspectFilter.key} · {aspectFilter.sentiment}
+                 </span>
+               )}
+
+               {languageFilter && (
+                 <span className="flex items-center gap-1 text-xs px-3 py-2 bg-blue-500/10 border border-blue-500/20 rounded-lg whitespace-nowrap text-blue-400">
+                   Language: {languageName(languageFilter)}
+                 </span>
+               )}
+
+               {(filter || evaluationFilter || keywordFilter || aspectFilter || languageFilter || reviewOnly) && (
                  <button 
-                   onClick={() => setFilter(null)}
+                   onClick={() => {
+                     setFilter(null);
+                     setEvaluationFilter(null);
+                     setKeywordFilter(null);
+                     setAspectFilter(null);
+                     setLanguageFilter(null);
+                     setReviewOnly(false);
+                   }}
                    className="flex items-center gap-1 text-xs px-3 py-2 bg-white/10 hover:bg-white/20 rounded-lg transition-colors whitespace-nowrap text-gray-300"
                  >
                    Clear <X className="w-3 h-3" />
@@ -327,61 +654,42 @@ export const DatasetAnalyzer: React.FC<DatasetAnalyzerProps> = ({ onAnalyzeCompl
               >
                 Neutral ({stats[SentimentType.NEUTRAL]})
               </button>
+              <button 
+                onClick={() => setReviewOnly(!reviewOnly)}
+                className={`ml-auto px-4 py-2 rounded-lg text-sm font-medium transition-colors whitespace-nowrap flex items-center gap-2 ${reviewOnly ? 'bg-amber-500/20 text-amber-300 border border-amber-500/20' : 'text-gray-400 hover:text-amber-300'}`}
+                title="Sarcasm, mixed sentiment or low confidence"
+              >
+                <Eye className="w-4 h-4" />
+                Needs review ({reviewCount})
+              </button>
             </div>
           )}
 
-          {/* Results List */}
-          <div className="flex-1 overflow-y-auto p-4 space-y-3 custom-scrollbar">
-            {!data.length ? (
-              <div className="h-full flex flex-col items-center justify-center text-gray-500 opacity-50">
-                <Filter className="w-12 h-12 mb-3" />
-                <p>Upload a dataset to view results</p>
-              </div>
-            ) : filteredData.length === 0 ? (
-              <div className="h-full flex flex-col items-center justify-center text-gray-500 opacity-50">
-                <p>No records match this filter</p>
-              </div>
-            ) : (
-              filteredData.map((row) => (
-                <div key={row.id} className="bg-darker/40 border border-white/5 rounded-xl p-4 hover:border-white/10 transition-colors">
-                  <div className="flex items-start justify-between gap-4">
-                    <div className="flex-1">
-                      <p className="text-gray-300 text-sm leading-relaxed mb-3">"{row.text}"</p>
-                      
-                      {row.result ? (
-                        <div className="flex flex-wrap items-center gap-3">
-                           <span className={`inline-flex items-center gap-1.5 px-2.5 py-1 rounded-md text-xs font-semibold border ${
-                             row.result.sentiment === SentimentType.POSITIVE ? 'bg-green-500/10 border-green-500/20 text-green-400' :
-                             row.result.sentiment === SentimentType.NEGATIVE ? 'bg-red-500/10 border-red-500/20 text-red-400' :
-                             'bg-yellow-500/10 border-yellow-500/20 text-yellow-400'
-                           }`}>
-                             {row.result.sentiment === SentimentType.POSITIVE ? <CheckCircle2 className="w-3 h-3" /> :
-                              row.result.sentiment === SentimentType.NEGATIVE ? <AlertCircle className="w-3 h-3" /> :
-                              <HelpCircle className="w-3 h-3" />}
-                             {row.result.sentiment}
-                           </span>
-                           <span className="text-xs text-gray-500 font-mono">Conf: {(row.result.score * 100).toFixed(0)}%</span>
-                           {row.result.keywords.length > 0 && (
-                             <div className="flex gap-1">
-                               {row.result.keywords.slice(0, 2).map((k, i) => (
-                                 <span key={i} className="px-2 py-0.5 bg-white/5 rounded text-[10px] text-gray-400">{k}</span>
-                               ))}
-                             </div>
-                           )}
-                        </div>
-                      ) : (
-                        <span className="inline-flex items-center gap-2 px-3 py-1 bg-white/5 rounded-full text-xs text-gray-500">
-                          <Loader2 className="w-3 h-3 animate-spin" /> Pending Analysis...
-                        </span>
-                      )}
-                    </div>
-                  </div>
-                </div>
-              ))
-            )}
-          </div>
+          {/* Results Table */}
+          {!data.length ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-gray-500 opacity-50">
+              <Filter className="w-12 h-12 mb-3" />
+              <p>Upload a dataset to view results</p>
+            </div>
+          ) : filteredData.length === 0 ? (
+            <div className="flex-1 flex flex-col items-center justify-center text-gray-500 opacity-50">
+              <p>No records match this filter</p>
+            </div>
+          ) : (
+            <ResultsTable rows={filteredData} />
+          )}
         </div>
       </div>
+
+      {datedRows > 1 && <TrendsPanel rows={data} />}
+
+      {stats.analyzed > 0 && (
+        <KeywordPanel rows={data} activeKeyword={keywordFilter} onSelectKeyword={setKeywordFilter} />
+      )}
+
+      {hasAspects && (
+        <AspectMatrix rows={data} activeFilter={aspectFilter} onFilterChange={setAspectFilter} />
+      )}
     </div>
   );
 };
\ No newline at end of file
@@ -0,0 +1,60 @@
+import React from 'react';
+import { HeartPulse } from 'lucide-react';
+import { PolarAngleAxis, PolarGrid, PolarRadiusAxis, Radar, RadarChart, ResponsiveContainer, Tooltip } from 'recharts';
+import { EmotionScore } from '../types';
+import { dominantEmotion } from '../services/emotions';
+
+interface EmotionRadarProps {
+  emotions: EmotionScore[];
+  title?: string;
+  height?: number;
+}
+
+const tooltipStyle = {
+  contentStyle: { backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '8px', color: '#f8fafc' },
+  itemStyle: { color: '#f8fafc' },
+};
+
+export const EmotionRadar: React.FC<EmotionRadarProps> = ({ emotions, title = 'Emotions', height = 240 }) => {
+  const top = dominantEmotion(emotions);
+  const data = emotions.map(e => ({ emotion: e.emotion, probability: Math.round(e.probability * 1000) / 10 }));
+
+  return (
+    <div className="bg-black/20 rounded-xl p-4 border border-white/5">
+      <div className="flex items-center justify-between gap-2 mb-2">
+        <div className="flex items-center gap-2 opacity-90">
+          <HeartPulse className="w-4 h-4" />
+          <h4 className="text-sm font-semibold uppercase tracking-wide">{title}</h4>
+        </div>
+        {top && (
+          <span className="text-xs opacity-80">
+            Dominant: <span className="font-semibold capitalize">{top.emotion}</span> ({(top.probability * 100).toFixed(0)}%)
+          </span>
+        )}
+      </div>
+      {/* A radar needs at least three axes to be readable */}
+      {emotions.length >= 3 ? (
+        <div style={{ height }}>
+          <ResponsiveContainer width="100%" height="100%">
+            <RadarChart data={data} outerRadius="75%">
+              <PolarGrid stroke="#334155" />
+              <PolarAngleAxis dataKey="emotion" tick={{ fill: '#cbd5e1', fontSize: 11 }} />
+              <PolarRadiusAxis angle={90} domain={[0, 'auto']} tick={false} axisLine={false} />
+              <Radar dataKey="probability" name="Probability (%)" stroke="#a855f7" fill="#a855f7" fillOpacity={0.35} />
+              <Tooltip {...tooltipStyle} />
+            </RadarChart>
+          </ResponsiveContainer>
+        </div>
+      ) : (
+        <ul className="space-y-1 text-sm">
+          {emotions.map(e => (
+            <li key={e.emotion} className="flex justify-between capitalize">
+              <span>{e.emotion}</span>
+              <span className="font-mono">{(e.probability * 100).toFixed(0)}%</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
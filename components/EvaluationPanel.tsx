@@ -0,0 +1,165 @@
+import React from 'react';
+import { Target } from 'lucide-react';
+import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import { SentimentType } from '../types';
+import { EvaluationFilter, EvaluationReport, SENTIMENT_CLASSES } from '../services/evaluation';
+
+interface EvaluationPanelProps {
+  report: EvaluationReport;
+  activeFilter: EvaluationFilter | null;
+  onFilterChange: (filter: EvaluationFilter | null) => void;
+}
+
+const percent = (value: number) => `${(value * 100).toFixed(1)}%`;
+
+const isActiveCell = (filter: EvaluationFilter | null, actual: SentimentType, predicted: SentimentType) =>
+  filter?.kind === 'cell' && filter.actual === actual && filter.predicted === predicted;
+
+export const EvaluationPanel: React.FC<EvaluationPanelProps> = ({ report, activeFilter, onFilterChange }) => {
+  const maxCell = Math.max(1, ...SENTIMENT_CLASSES.flatMap(a => SENTIMENT_CLASSES.map(p => report.matrix[a][p])));
+  const misclassified = report.evaluated - Math.round(report.accuracy * report.evaluated);
+
+  const calibrationData = report.calibration.map(bin => ({
+    score: Number(bin.meanScore.toFixed(3)),
+    accuracy: Number(bin.accuracy.toFixed(3)),
+    // Diagonal reference: accuracy equal to the score
+    perfect: Number(bin.meanScore.toFixed(3)),
+    count: bin.count,
+  }));
+
+  const toggleCell = (actual: SentimentType, predicted: SentimentType) =>
+    onFilterChange(isActiveCell(activeFilter, actual, predicted) ? null : { kind: 'cell', actual, predicted });
+
+  return (
+    <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5 space-y-5">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Target className="w-4 h-4" />
+          Evaluation
+        </h3>
+        <span className="text-xs text-gray-500">{report.evaluated.toLocaleString()} labelled</span>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div className="bg-black/20 rounded-lg p-3 border border-white/5">
+          <p className="text-[10px] uppercase tracking-wider text-gray-500">Accuracy</p>
+          <p className="text-2xl font-bold text-white">{percent(report.accuracy)}</p>
+        </div>
+        <div className="bg-black/20 rounded-lg p-3 border border-white/5">
+          <p className="text-[10px] uppercase tracking-wider text-gray-500">Macro F1</p>
+          <p className="text-2xl font-bold text-white">{report.macroF1.toFixed(3)}</p>
+        </div>
+      </div>
+
+      {/* Confusion matrix: rows are true labels, columns predictions */}
+      <div>
+        <p className="text-xs text-gray-500 mb-2">Confusion matrix <span className="text-gray-600">(true ↓ / predicted →)</span></p>
+        <table className="w-full text-xs">
+          <thead>
+            <tr>
+              <th></th>
+              {SENTIMENT_CLASSES.map(c => <th key={c} className="p-1 font-medium text-gray-400">{c}</th>)}
+            </tr>
+          </thead>
+          <tbody>
+            {SENTIMENT_CLASSES.map(actual => (
+              <tr key={actual}>
+                <th className="p-1 text-left font-medium text-gray-400">{actual}</th>
+                {SENTIMENT_CLASSES.map(predicted => {
+                  const count = report.matrix[actual][predicted];
+                  const correct = actual === predicted;
+                  return (
+                    <td key={predicted} className="p-0.5">
+                      <button
+                        onClick={() => toggleCell(actual, predicted)}
+                        disabled={count === 0}
+                        title={`${count} rows labelled ${actual}, predicted ${predicted}`}
+                        className={`w-full py-2 rounded font-mono transition-all disabled:cursor-default ${
+                          isActiveCell(activeFilter, actual, predicted) ? 'ring-2 ring-white/60' : 'hover:ring-1 hover:ring-white/30'
+                        } ${count > 0 ? 'text-white' : 'text-gray-600'}`}
+                        style={{
+                          backgroundColor: count > 0
+                            ? `rgba(${correct ? '74, 222, 128' : '248, 113, 113'}, ${0.1 + 0.5 * (count / maxCell)})`
+                            : 'rgba(255, 255, 255, 0.03)',
+                        }}
+                      >
+                        {count}
+                      </button>
+                    </td>
+                  );
+                })}
+              </tr>
+            ))}
+          </tbody>
+        </table>
+        <button
+          onClick={() => onFilterChange(activeFilter?.kind === 'misclassified' ? null : { kind: 'misclassified' })}
+          disabled={misclassified === 0}
+          className={`mt-2 w-full text-xs px-3 py-2 rounded-lg border transition-colors disabled:opacity-50 ${
+            activeFilter?.kind === 'misclassified'
+              ? 'bg-red-500/20 border-red-500/30 text-red-300'
+              : 'border-white/10 text-gray-400 hover:text-white hover:bg-white/5'
+          }`}
+        >
+          Show all {misclassified.toLocaleString()} misclassified rows
+        </button>
+      </div>
+
+      {/* Per-class metrics */}
+      <table className="w-full text-xs">
+        <thead>
+          <tr className="text-gray-500">
+            <th className="text-left font-medium p-1">Class</th>
+            <th className="text-right font-medium p-1">Precision</th>
+            <th className="text-right font-medium p-1">Recall</th>
+            <th className="text-right font-medium p-1">F1</th>
+            <th className="text-right font-medium p-1">n</th>
+          </tr>
+        </thead>
+        <tbody className="font-mono text-gray-300">
+          {SENTIMENT_CLASSES.map(c => (
+            <tr key={c} className="border-t border-white/5">
+              <td className="p-1 font-sans text-gray-400">{c}</td>
+              <td className="p-1 text-right">{report.perClass[c].precision.toFixed(2)}</td>
+              <td className="p-1 text-right">{report.perClass[c].recall.toFixed(2)}</td>
+              <td className="p-1 text-right">{report.perClass[c].f1.toFixed(2)}</td>
+              <td className="p-1 text-right text-gray-500">{report.perClass[c].support}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {/* Calibration: a well-calibrated model sits on the diagonal */}
+      <div>
+        <p className="text-xs text-gray-500 mb-2">Calibration (score vs. accuracy)</p>
+        <div className="h-[180px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={calibrationData} margin={{ top: 5, right: 10, bottom: 0, left: -20 }}>
+              <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+              <XAxis dataKey="score" type="number" domain={[0, 1]} ticks={[0, 0.25, 0.5, 0.75, 1]} tick={{ fill: '#64748b', fontSize: 10 }} />
+              <YAxis type="number" domain={[0, 1]} ticks={[0, 0.5, 1]} tick={{ fill: '#64748b', fontSize: 10 }} />
+              <Tooltip
+                contentStyle={{ backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '8px', color: '#f8fafc' }}
+                itemStyle={{ color: '#f8fafc' }}
+                formatter={(value: number, name: string) => name === 'perfect' ? value : percent(value)}
+              />
+              <Line dataKey="perfect" name="perfect" stroke="#475569" strokeDasharray="4 4" dot={false} activeDot={false} isAnimationActive={false} />
+              <Line dataKey="accuracy" name="accuracy" stroke="#a78bfa" strokeWidth={2} dot={{ r: 3, fill: '#a78bfa' }} isAnimationActive={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      {report.unrecognised > 0 && (
+        <p className="text-[11px] text-gray-500">
+          {report.unrecognised.toLocaleString()} labelled rows were skipped because their label is not Positive, Negative or Neutral.
+        </p>
+      )}
+      {report.notEvaluated > 0 && (
+        <p className="text-[11px] text-orange-300">
+          {report.notEvaluated.toLocaleString()} labelled rows were not evaluated because their analysis failed.
+        </p>
+      )}
+    </div>
+  );
+};
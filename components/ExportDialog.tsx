@@ -0,0 +1,122 @@
+import React, { useMemo, useState } from 'react';
+import { Download, X } from 'lucide-react';
+import { DatasetRow } from '../types';
+import { EXPORT_FORMATS, ExportFormat, exportDataset, getExportColumns } from '../services/datasetExport';
+import { downloadBlob } from '../services/download';
+
+interface ExportDialogProps {
+  rows: DatasetRow[];
+  // Rows matching the current filter/search; offered as an export scope when narrower than `rows`
+  viewRows: DatasetRow[];
+  fileName: string | null;
+  onClose: () => void;
+}
+
+export const ExportDialog: React.FC<ExportDialogProps> = ({ rows, viewRows, fileName, onClose }) => {
+  const [format, setFormat] = useState<ExportFormat>('csv');
+  const [scope, setScope] = useState<'all' | 'view'>(viewRows.length < rows.length ? 'view' : 'all');
+  const columns = useMemo(() => getExportColumns(rows), [rows]);
+  const [selected, setSelected] = useState<Set<string>>(() => new Set(columns.map(c => c.key)));
+
+  const exportRows = scope === 'view' ? viewRows : rows;
+  const baseName = (fileName || 'dataset').replace(/\.[^.]+$/, '');
+
+  const toggleColumn = (key: string) => {
+    setSelected(current => {
+      const next = new Set(current);
+      if (next.has(key)) next.delete(key);
+      else next.add(key);
+      return next;
+    });
+  };
+
+  const handleExport = () => {
+    const blob = exportDataset(exportRows, columns.filter(c => selected.has(c.key)), format);
+    downloadBlob(blob, `${baseName}_sentiment_${new Date().toISOString().slice(0, 10)}.${EXPORT_FORMATS[format].extension}`);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 bg-black/60 backdrop-blur-sm z-50 flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="export-dialog-title"
+        className="bg-card w-full max-w-lg rounded-2xl shadow-2xl border border-white/10 p-6 space-y-5"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h2 id="export-dialog-title" className="text-lg font-semibold text-white">Export Results</h2>
+          <button onClick={onClose} className="p-1.5 rounded-full text-gray-400 hover:text-white hover:bg-white/10 transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-wider text-gray-500 font-semibold">Format</p>
+          <div className="grid grid-cols-4 gap-2">
+            {(Object.keys(EXPORT_FORMATS) as ExportFormat[]).map(f => (
+              <button
+                key={f}
+                onClick={() => setFormat(f)}
+                className={`px-3 py-2 rounded-lg text-xs font-medium border transition-colors ${
+                  format === f ? 'bg-primary/20 border-primary/40 text-white' : 'border-white/10 text-gray-400 hover:text-white hover:bg-white/5'
+                }`}
+              >
+                {EXPORT_FORMATS[f].label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <p className="text-xs uppercase tracking-wider text-gray-500 font-semibold">Rows</p>
+          <div className="flex gap-4 text-sm text-gray-300">
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input type="radio" checked={scope === 'all'} onChange={() => setScope('all')} className="accent-secondary" />
+              All rows ({rows.length.toLocaleString()})
+            </label>
+            <label className={`flex items-center gap-2 ${viewRows.length === rows.length ? 'opacity-50' : 'cursor-pointer'}`}>
+              <input
+                type="radio"
+                checked={scope === 'view'}
+                disabled={viewRows.length === rows.length}
+                onChange={() => setScope('view')}
+                className="accent-secondary"
+              />
+              Current view ({viewRows.length.toLocaleString()})
+            </label>
+          </div>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <p className="text-xs uppercase tracking-wider text-gray-500 font-semibold">Columns</p>
+            <div className="flex gap-2 text-xs">
+              <button onClick={() => setSelected(new Set(columns.map(c => c.key)))} className="text-gray-400 hover:text-white">All</button>
+              <span className="text-gray-600">·</span>
+              <button onClick={() => setSelected(new Set())} className="text-gray-400 hover:text-white">None</button>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-1.5 max-h-48 overflow-y-auto custom-scrollbar">
+            {columns.map(column => (
+              <label key={column.key} className="flex items-center gap-2 text-sm text-gray-300 cursor-pointer px-2 py-1 rounded hover:bg-white/5">
+                <input type="checkbox" checked={selected.has(column.key)} onChange={() => toggleColumn(column.key)} className="accent-secondary" />
+                <span className="truncate font-mono text-xs">{column.label}</span>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        <button
+          onClick={handleExport}
+          disabled={selected.size === 0 || exportRows.length === 0}
+          className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-primary to-secondary hover:opacity-90 disabled:opacity-50 disabled:cursor-not-allowed text-white px-4 py-3 rounded-xl font-medium transition-all shadow-lg shadow-primary/20"
+        >
+          <Download className="w-4 h-4" />
+          Export {exportRows.length.toLocaleString()} rows as {EXPORT_FORMATS[format].label}
+        </button>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,25 @@
+import React from 'react';
+import { keywordRanges } from '../services/highlight';
+
+interface HighlightedTextProps {
+  text: string;
+  keywords: string[];
+}
+
+export const KEYWORD_HIGHLIGHT_CLASS = 'bg-white/10 px-1 py-0.5 rounded font-bold border-b-2 border-current shadow-[0_0_10px_rgba(255,255,255,0.1)]';
+
+// Text with every keyword occurrence emphasised
+export const HighlightedText: React.FC<HighlightedTextProps> = ({ text, keywords }) => {
+  const ranges = keywordRanges(text, keywords);
+  if (ranges.length === 0) return <>{text}</>;
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  ranges.forEach(({ start, end }, i) => {
+    if (start > cursor) parts.push(text.slice(cursor, start));
+    parts.push(<span key={i} className={KEYWORD_HIGHLIGHT_CLASS}>{text.slice(start, end)}</span>);
+    cursor = end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+  return <>{parts}</>;
+};
@@ -0,0 +1,405 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { History, X, Clock, ChevronRight, MessageSquare, Mic, Database, GitCompare, Search, SlidersHorizontal, Pin, PinOff, Edit2, Check, Trash2, CheckSquare, Square, Download, Upload } from 'lucide-react';
+import { AnalyzerMode, EmergencyCategory, HistoryItem, SentimentType } from '../types';
+import { EMPTY_FILTERS, HistoryFilters, filterHistory, groupHistoryByDay, isFiltered } from '../services/historySearch';
+import { RetentionPolicy, StorageUsage } from '../services/historyStore';
+import { ImportStrategy, ImportSummary, exportArchive } from '../services/historyArchive';
+import { downloadBlob } from '../services/download';
+import { HistorySettings } from './HistorySettings';
+
+interface HistoryPanelProps {
+  history: HistoryItem[];
+  onLoadHistory: (item: HistoryItem) => void;
+  onUpdateHistory: (id: string, patch: Partial<HistoryItem>) => void;
+  onDeleteHistory: (ids: string[]) => void;
+  onImportArchive: (file: Blob, strategy: ImportStrategy) => Promise<ImportSummary>;
+  onClose: () => void;
+  retention: RetentionPolicy;
+  onRetentionChange: (policy: RetentionPolicy) => void;
+  storageUsage: StorageUsage | null;
+}
+
+const MODES: AnalyzerMode[] = ['text', 'voice', 'dataset', 'compare'];
+const SENTIMENTS = [SentimentType.POSITIVE, SentimentType.NEGATIVE, SentimentType.NEUTRAL];
+const CATEGORIES: EmergencyCategory[] = ['Health', 'Safety', 'General', 'None'];
+
+const selectClass = "w-full bg-darker border border-white/10 rounded-lg px-2 py-1.5 text-xs text-gray-200 outline-none focus:border-primary/50";
+
+export const HistoryPanel: React.FC<HistoryPanelProps> = ({
+  history, onLoadHistory, onUpdateHistory, onDeleteHistory, onImportArchive, onClose, retention, onRetentionChange, storageUsage,
+}) => {
+  const [filters, setFilters] = useState<HistoryFilters>(EMPTY_FILTERS);
+  const [showFilters, setShowFilters] = useState(false);
+  const [selecting, setSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+  const [pendingImport, setPendingImport] = useState<File | null>(null);
+  const [notice, setNotice] = useState<{ tone: 'info' | 'error'; text: string } | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
+  const visible = useMemo(() => filterHistory(history, filters), [history, filters]);
+  const groups = useMemo(() => groupHistoryByDay(visible), [visible]);
+
+  const updateFilter = <K extends keyof HistoryFilters>(key: K, value: HistoryFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+  };
+
+  const formatTime = (timestamp: number) => {
+    const date = new Date(timestamp);
+    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const allVisibleSelected = visible.length > 0 && visible.every(item => selected.has(item.id));
+
+  const toggleSelectAll = () => {
+    setSelected(allVisibleSelected ? new Set() : new Set(visible.map(item => item.id)));
+  };
+
+  const exitSelecting = () => {
+    setSelecting(false);
+    setSelected(new Set());
+  };
+
+  const handleDeleteSelected = () => {
+    if (selected.size === 0) return;
+    if (!confirm(`Delete ${selected.size} item${selected.size === 1 ? '' : 's'} from history?`)) return;
+    onDeleteHistory(Array.from(selected));
+    exitSelecting();
+  };
+
+  const handleExport = async (items: HistoryItem[]) => {
+    if (items.length === 0) return;
+    try {
+      const archive = await exportArchive(items);
+      downloadBlob(archive, `sentimind_history_${new Date().toISOString().slice(0,10)}.json`);
+    } catch (e) {
+      console.error("Export failed", e);
+      setNotice({ tone: 'error', text: 'Export failed.' });
+    }
+  };
+
+  const handleImportFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow picking the same file again
+    if (file) {
+      setPendingImport(file);
+      setNotice(null);
+    }
+  };
+
+  const runImport = async (strategy: ImportStrategy) => {
+    if (!pendingImport) return;
+    if (strategy === 'replace' && !confirm('Replace your entire history with the contents of this archive?')) return;
+    try {
+      const summary = await onImportArchive(pendingImport, strategy);
+      const details = [
+        summary.skipped && `${summary.skipped} duplicate${summary.skipped === 1 ? '' : 's'} skipped`,
+        summary.invalid && `${summary.invalid} unreadable`,
+        summary.expired && `${summary.expired} removed by retention`,
+      ].filter(Boolean).join(', ');
+      setNotice({ tone: 'info', text: `Imported ${summary.added} item${summary.added === 1 ? '' : 's'}${details ? ` (${details})` : ''}.` });
+    } catch (e) {
+      setNotice({ tone: 'error', text: e instanceof Error ? e.message : 'Import failed.' });
+    }
+    setPendingImport(null);
+  };
+
+  const startRename = (item: HistoryItem) => {
+    setRenamingId(item.id);
+    setRenameValue(item.summary);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onUpdateHistory(renamingId, { summary: renameValue.trim() });
+    }
+    setRenamingId(null);
+  };
+
+  const handleItemClick = (item: HistoryItem) => {
+    if (selecting) {
+      toggleSelected(item.id);
+      return;
+    }
+    onLoadHistory(item);
+    if (window.innerWidth < 768) onClose();
+  };
+
+  return (
+    <>
+      <div className="p-6 border-b border-white/5 flex items-center justify-between bg-darker/50">
+        <h2 className="font-bold text-white flex items-center gap-2">
+          <History className="w-5 h-5 text-primary" />
+          Recent Analysis
+        </h2>
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() => handleExport(history)}
+            disabled={history.length === 0}
+            className="text-gray-400 hover:text-white disabled:opacity-40 transition-colors"
+            title="Export all history"
+          >
+            <Download className="w-4 h-4" />
+          </button>
+          <button
+            onClick={() => importInputRef.current?.click()}
+            className="text-gray-400 hover:text-white transition-colors"
+            title="Import archive"
+          >
+            <Upload className="w-4 h-4" />
+          </button>
+          <input ref={importInputRef} type="file" accept=".json,application/json" className="hidden" onChange={handleImportFile} />
+          <button
+            onClick={() => (selecting ? exitSelecting() : setSelecting(true))}
+            className={`text-xs font-medium transition-colors ${selecting ? 'text-primary' : 'text-gray-400 hover:text-white'}`}
+          >
+            {selecting ? 'Done' : 'Select'}
+          </button>
+          <button
+            onClick={onClose}
+            className="text-gray-400 hover:text-white transition-colors"
+          >
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Import / Export Status */}
+      {pendingImport && (
+        <div className="px-4 py-3 border-b border-white/5 bg-primary/5 space-y-2">
+          <p className="text-xs text-gray-300 truncate">Import <span className="font-semibold text-white">{pendingImport.name}</span></p>
+          <div className="flex gap-2">
+            <button onClick={() => runImport('merge')} className="flex-1 text-xs px-3 py-1.5 rounded-lg bg-primary/20 text-primary hover:bg-primary/30 transition-colors">
+              Merge
+            </button>
+            <button onClick={() => runImport('replace')} className="flex-1 text-xs px-3 py-1.5 rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 transition-colors">
+              Replace
+            </button>
+            <button onClick={() => setPendingImport(null)} className="text-xs px-3 py-1.5 rounded-lg text-gray-400 hover:text-white transition-colors">
+              Cancel
+            </button>
+          </div>
+        </div>
+      )}
+      {notice && (
+        <div className={`px-4 py-2 border-b border-white/5 flex items-start justify-between gap-2 text-xs ${notice.tone === 'error' ? 'bg-red-500/10 text-red-300' : 'bg-green-500/10 text-green-300'}`}>
+          <span>{notice.text}</span>
+          <button onClick={() => setNotice(null)} className="opacity-60 hover:opacity-100">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {/* Search & Filters */}
+      <div className="p-4 border-b border-white/5 space-y-3">
+        <div className="flex items-center gap-2">
+          <div className="relative flex-1">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-gray-500" />
+            <input
+              type="text"
+              placeholder="Search inputs & transcripts..."
+              value={filters.query}
+              onChange={(e) => updateFilter('query', e.target.value)}
+              className="w-full bg-darker/50 border border-white/10 rounded-lg pl-9 pr-3 py-2 text-sm text-gray-200 focus:border-primary/50 outline-none transition-colors placeholder-gray-600"
+            />
+          </div>
+          <button
+            onClick={() => setShowFilters(!showFilters)}
+            className={`p-2 rounded-lg border transition-colors ${showFilters || isFiltered({ ...filters, query: '' }) ? 'border-primary/30 text-primary bg-primary/10' : 'border-white/10 text-gray-400 hover:text-white'}`}
+            title="Filters"
+          >
+            <SlidersHorizontal className="w-4 h-4" />
+          </button>
+        </div>
+
+        {showFilters && (
+          <div className="grid grid-cols-2 gap-2 text-[10px] uppercase tracking-wider text-gray-500">
+            <label className="space-y-1">
+              <span>Mode</span>
+              <select value={filters.mode ?? ''} onChange={(e) => updateFilter('mode', (e.target.value || null) as AnalyzerMode | null)} className={selectClass}>
+                <option value="">All</option>
+                {MODES.map(m => <option key={m} value={m}>{m}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span>Sentiment</span>
+              <select value={filters.sentiment ?? ''} onChange={(e) => updateFilter('sentiment', (e.target.value || null) as SentimentType | null)} className={selectClass}>
+                <option value="">All</option>
+                {SENTIMENTS.map(s => <option key={s} value={s}>{s}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1 col-span-2">
+              <span>Emergency Category</span>
+              <select value={filters.emergencyCategory ?? ''} onChange={(e) => updateFilter('emergencyCategory', (e.target.value || null) as EmergencyCategory | null)} className={selectClass}>
+                <option value="">All</option>
+                {CATEGORIES.map(c => <option key={c} value={c}>{c}</option>)}
+              </select>
+            </label>
+            <label className="space-y-1">
+              <span>From</span>
+              <input type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} className={selectClass} />
+            </label>
+            <label className="space-y-1">
+              <span>To</span>
+              <input type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} className={selectClass} />
+            </label>
+            {isFiltered(filters) && (
+              <button
+                onClick={() => setFilters(EMPTY_FILTERS)}
+                className="col-span-2 text-xs normal-case tracking-normal text-gray-400 hover:text-white py-1"
+              >
+                Clear filters
+              </button>
+            )}
+          </div>
+        )}
+      </div>
+
+      {/* Bulk Actions */}
+      {selecting && (
+        <div className="px-4 py-2 border-b border-white/5 flex items-center justify-between bg-primary/5">
+          <button onClick={toggleSelectAll} className="flex items-center gap-2 text-xs text-gray-300 hover:text-white">
+            {allVisibleSelected ? <CheckSquare className="w-4 h-4 text-primary" /> : <Square className="w-4 h-4" />}
+            {allVisibleSelected ? 'Deselect all' : 'Select all'}
+          </button>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => handleExport(history.filter(item => selected.has(item.id)))}
+              disabled={selected.size === 0}
+              className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-white/5 text-gray-300 hover:bg-white/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <Download className="w-3 h-3" />
+              Export
+            </button>
+            <button
+              onClick={handleDeleteSelected}
+              disabled={selected.size === 0}
+              className="flex items-center gap-1.5 text-xs px-3 py-1.5 rounded-lg bg-red-500/10 text-red-400 hover:bg-red-500/20 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+            >
+              <Trash2 className="w-3 h-3" />
+              Delete ({selected.size})
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="flex-1 overflow-y-auto p-4 space-y-5">
+        {history.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <Clock className="w-8 h-8 mx-auto mb-2 opacity-30" />
+            <p className="text-sm">No recent history</p>
+          </div>
+        ) : visible.length === 0 ? (
+          <div className="text-center py-10 text-gray-500">
+            <Search className="w-8 h-8 mx-auto mb-2 opacity-30" />
+            <p className="text-sm">No history matches these filters</p>
+          </div>
+        ) : (
+          groups.map((group) => (
+            <div key={group.key} className="space-y-3">
+              <h3 className="text-[10px] uppercase tracking-wider font-semibold text-gray-500 flex items-center gap-1.5">
+                {group.key === 'pinned' && <Pin className="w-3 h-3" />}
+                {group.label}
+              </h3>
+              {group.items.map((item) => (
+                <div
+                  key={item.id}
+                  onClick={() => handleItemClick(item)}
+                  className={`w-full text-left bg-darker/50 hover:bg-white/5 border rounded-xl p-3 transition-all group cursor-pointer ${
+                    selected.has(item.id) ? 'border-primary/50 bg-primary/5' : 'border-white/5 hover:border-primary/30'
+                  }`}
+                >
+                  <div className="flex items-center justify-between mb-2">
+                     <div className="flex items-center gap-2">
+                        {selecting && (selected.has(item.id)
+                          ? <CheckSquare className="w-3 h-3 text-primary" />
+                          : <Square className="w-3 h-3 text-gray-500" />)}
+                        {item.mode === 'text' && <MessageSquare className="w-3 h-3 text-blue-400" />}
+                        {item.mode === 'voice' && <Mic className="w-3 h-3 text-purple-400" />}
+                        {item.mode === 'dataset' && <Database className="w-3 h-3 text-green-400" />}
+                        {item.mode === 'compare' && <GitCompare className="w-3 h-3 text-yellow-400" />}
+                        <span className="text-[10px] uppercase tracking-wider font-semibold text-gray-500">{item.mode}</span>
+                     </div>
+                     <div className="flex items-center gap-2">
+                        {!selecting && (
+                          <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                            <button
+                              onClick={(e) => { e.stopPropagation(); startRename(item); }}
+                              className="p-1 text-gray-500 hover:text-white"
+                              title="Rename"
+                            >
+                              <Edit2 className="w-3 h-3" />
+                            </button>
+                            <button
+                              onClick={(e) => { e.stopPropagation(); onUpdateHistory(item.id, { pinned: !item.pinned }); }}
+                              className="p-1 text-gray-500 hover:text-white"
+                              title={item.pinned ? 'Unpin' : 'Pin'}
+                            >
+                              {item.pinned ? <PinOff className="w-3 h-3" /> : <Pin className="w-3 h-3" />}
+                            </button>
+                          </div>
+                        )}
+                        <span className="text-[10px] text-gray-600 font-mono">{formatTime(item.timestamp)}</span>
+                     </div>
+                  </div>
+                  {renamingId === item.id ? (
+                    <div className="flex items-center gap-2" onClick={(e) => e.stopPropagation()}>
+                      <input
+                        autoFocus
+                        value={renameValue}
+                        onChange={(e) => setRenameValue(e.target.value)}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenamingId(null);
+                        }}
+                        className="flex-1 bg-darker border border-primary/50 rounded px-2 py-1 text-sm text-white outline-none"
+                      />
+                      <button onClick={commitRename} className="p-1 text-green-400 hover:bg-green-400/10 rounded">
+                        <Check className="w-4 h-4" />
+                      </button>
+                      <button onClick={() => setRenamingId(null)} className="p-1 text-red-400 hover:bg-red-400/10 rounded">
+                        <X className="w-4 h-4" />
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center justify-between gap-2">
+                       <p className="text-sm text-gray-300 truncate font-medium flex-1">{item.summary}</p>
+                       <ChevronRight className="w-4 h-4 text-gray-600 group-hover:text-primary transition-colors opacity-0 group-hover:opacity-100" />
+                    </div>
+                  )}
+                  {(item.mode === 'text' || item.mode === 'voice') && item.data.result && (
+                     <div className="mt-2 flex items-center gap-2">
+                        <span className={`text-[10px] px-1.5 py-0.5 rounded border ${
+                           item.data.result.sentiment === 'Positive' ? 'bg-green-500/10 border-green-500/20 text-green-400' :
+                           item.data.result.sentiment === 'Negative' ? 'bg-red-500/10 border-red-500/20 text-red-400' :
+                           'bg-yellow-500/10 border-yellow-500/20 text-yellow-400'
+                        }`}>
+                          {item.data.result.sentiment}
+                        </span>
+                        {item.data.result.emergencyCategory && item.data.result.emergencyCategory !== 'None' && (
+                          <span className="text-[10px] px-1.5 py-0.5 rounded border bg-red-500/10 border-red-500/20 text-red-300">
+                            {item.data.result.emergencyCategory}
+                          </span>
+                        )}
+                     </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          ))
+        )}
+      </div>
+
+      <HistorySettings retention={retention} onRetentionChange={onRetentionChange} usage={storageUsage} />
+    </>
+  );
+};
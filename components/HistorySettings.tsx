@@ -0,0 +1,71 @@
+import React from 'react';
+import { HardDrive } from 'lucide-react';
+import { RetentionPolicy, StorageUsage } from '../services/historyStore';
+
+interface HistorySettingsProps {
+  retention: RetentionPolicy;
+  onRetentionChange: (policy: RetentionPolicy) => void;
+  usage: StorageUsage | null;
+}
+
+const MAX_ITEM_OPTIONS = [50, 200, 1000];
+const MAX_AGE_OPTIONS = [7, 30, 90, 365];
+
+const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  if (bytes < 1024 * 1024 * 1024) return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+  return `${(bytes / (1024 * 1024 * 1024)).toFixed(2)} GB`;
+};
+
+export const HistorySettings: React.FC<HistorySettingsProps> = ({ retention, onRetentionChange, usage }) => {
+  const usagePercent = usage?.usageBytes != null && usage.quotaBytes
+    ? Math.min(100, (usage.usageBytes / usage.quotaBytes) * 100)
+    : null;
+
+  return (
+    <div className="p-4 border-t border-white/5 bg-darker/50 space-y-3">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span className="flex items-center gap-1.5">
+          <HardDrive className="w-3 h-3" />
+          {usage ? `${usage.itemCount} saved` : 'Storage'}
+        </span>
+        {usage?.usageBytes != null && (
+          <span className="font-mono">
+            {formatBytes(usage.usageBytes)}{usage.quotaBytes ? ` / ${formatBytes(usage.quotaBytes)}` : ''}
+          </span>
+        )}
+      </div>
+      {usagePercent !== null && (
+        <div className="h-1 bg-white/10 rounded-full overflow-hidden">
+          <div className="h-full bg-primary" style={{ width: `${Math.max(usagePercent, 1)}%` }} />
+        </div>
+      )}
+
+      <div className="grid grid-cols-2 gap-2">
+        <label className="text-[10px] uppercase tracking-wider text-gray-500 space-y-1">
+          <span>Keep last</span>
+          <select
+            value={retention.maxItems ?? ''}
+            onChange={(e) => onRetentionChange({ ...retention, maxItems: e.target.value ? Number(e.target.value) : null })}
+            className="w-full bg-darker border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-200 normal-case tracking-normal outline-none"
+          >
+            {MAX_ITEM_OPTIONS.map(n => <option key={n} value={n}>{n} items</option>)}
+            <option value="">Unlimited</option>
+          </select>
+        </label>
+        <label className="text-[10px] uppercase tracking-wider text-gray-500 space-y-1">
+          <span>Delete after</span>
+          <select
+            value={retention.maxAgeDays ?? ''}
+            onChange={(e) => onRetentionChange({ ...retention, maxAgeDays: e.target.value ? Number(e.target.value) : null })}
+            className="w-full bg-darker border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-200 normal-case tracking-normal outline-none"
+          >
+            {MAX_AGE_OPTIONS.map(d => <option key={d} value={d}>{d} days</option>)}
+            <option value="">Never</option>
+          </select>
+        </label>
+      </div>
+    </div>
+  );
+};
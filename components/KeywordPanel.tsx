@@ -0,0 +1,136 @@
+import React, { useMemo } from 'react';
+import { Tags } from 'lucide-react';
+import { DatasetRow, SentimentType } from '../types';
+import { analyzeKeywords, coOccurrence, topDrivers, KeywordStat } from '../services/keywordAnalytics';
+
+interface KeywordPanelProps {
+  rows: DatasetRow[];
+  activeKeyword: string | null;
+  onSelectKeyword: (key: string | null) => void;
+}
+
+const CLOUD_SIZE = 40;
+const DRIVERS_PER_CLASS = 8;
+const MATRIX_SIZE = 8;
+
+const SENTIMENT_STYLES: Record<SentimentType, { text: string; rgb: string }> = {
+  [SentimentType.POSITIVE]: { text: 'text-green-400', rgb: '74, 222, 128' },
+  [SentimentType.NEUTRAL]: { text: 'text-yellow-400', rgb: '251, 191, 36' },
+  [SentimentType.NEGATIVE]: { text: 'text-red-400', rgb: '248, 113, 113' },
+};
+
+const dominantSentiment = (stat: KeywordStat) =>
+  (Object.keys(stat.bySentiment) as SentimentType[]).reduce((best, s) => stat.bySentiment[s] > stat.bySentiment[best] ? s : best);
+
+export const KeywordPanel: React.FC<KeywordPanelProps> = ({ rows, activeKeyword, onSelectKeyword }) => {
+  const analytics = useMemo(() => analyzeKeywords(rows), [rows]);
+  const cloud = analytics.keywords.slice(0, CLOUD_SIZE);
+  const matrixTerms = analytics.keywords.slice(0, MATRIX_SIZE);
+
+  if (cloud.length === 0) return null;
+
+  const maxCount = cloud[0].count;
+  const minCount = cloud[cloud.length - 1].count;
+  const maxPair = Math.max(1, ...matrixTerms.flatMap(a => matrixTerms.map(b => a.key === b.key ? 0 : coOccurrence(analytics, a.key, b.key))));
+
+  const select = (key: string) => onSelectKeyword(activeKeyword === key ? null : key);
+
+  const termButton = (stat: KeywordStat, className: string, style?: React.CSSProperties) => (
+    <button
+      key={stat.key}
+      onClick={() => select(stat.key)}
+      title={`${stat.count} rows · ${stat.bySentiment[SentimentType.POSITIVE]} positive, ${stat.bySentiment[SentimentType.NEUTRAL]} neutral, ${stat.bySentiment[SentimentType.NEGATIVE]} negative`}
+      className={`${className} transition-opacity ${activeKeyword && activeKeyword !== stat.key ? 'opacity-40 hover:opacity-80' : ''} ${activeKeyword === stat.key ? 'underline underline-offset-4' : ''}`}
+      style={style}
+    >
+      {stat.term}
+    </button>
+  );
+
+  return (
+    <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="bg-secondary/20 p-2 rounded-lg text-secondary"><Tags className="w-4 h-4" /></span>
+          Keywords & Themes
+        </h2>
+        <span className="text-xs text-gray-500">{analytics.keywords.length.toLocaleString()} distinct keywords · click one to filter the table</span>
+      </div>
+
+      {/* Word cloud: size by frequency, colour by the sentiment it appears in most */}
+      <div className="flex flex-wrap items-center justify-center gap-x-4 gap-y-2 bg-black/20 rounded-xl p-6 border border-white/5">
+        {[...cloud].sort((a, b) => a.term.localeCompare(b.term)).map(stat => {
+          const weight = maxCount === minCount ? 0.5 : (stat.count - minCount) / (maxCount - minCount);
+          return termButton(stat, `${SENTIMENT_STYLES[dominantSentiment(stat)].text} font-semibold leading-none hover:brightness-125`, {
+            fontSize: `${0.75 + weight * 1.5}rem`,
+          });
+        })}
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+        {/* Top drivers per sentiment */}
+        <div className="grid grid-cols-3 gap-4">
+          {[SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE].map(sentiment => {
+            const drivers = topDrivers(analytics, sentiment, DRIVERS_PER_CLASS);
+            return (
+              <div key={sentiment}>
+                <p className={`text-xs uppercase tracking-wider font-semibold mb-2 ${SENTIMENT_STYLES[sentiment].text}`}>{sentiment} drivers</p>
+                {drivers.length === 0 ? (
+                  <p className="text-xs text-gray-600">Not enough data</p>
+                ) : (
+                  <ul className="space-y-1">
+                    {drivers.map(driver => (
+                      <li key={driver.key} className="flex items-center justify-between gap-2 text-xs">
+                        {termButton(driver, 'text-gray-300 hover:text-white truncate text-left')}
+                        <span className="text-gray-500 font-mono shrink-0" title={`${driver.lift.toFixed(1)}× more common in ${sentiment} rows`}>
+                          {driver.bySentiment[sentiment]}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Co-occurrence of the most frequent keywords */}
+        <div className="overflow-x-auto">
+          <p className="text-xs uppercase tracking-wider text-gray-500 font-semibold mb-2">Co-occurrence</p>
+          <table className="text-[11px]">
+            <thead>
+              <tr>
+                <th></th>
+                {matrixTerms.map(term => (
+                  <th key={term.key} className="p-1 font-normal text-gray-400 align-bottom">
+                    <span className="block max-w-[64px] truncate" title={term.term}>{term.term}</span>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {matrixTerms.map(row => (
+                <tr key={row.key}>
+                  <th className="p-1 pr-2 text-right font-normal text-gray-400 max-w-[96px] truncate" title={row.term}>{row.term}</th>
+                  {matrixTerms.map(col => {
+                    const count = row.key === col.key ? null : coOccurrence(analytics, row.key, col.key);
+                    return (
+                      <td
+                        key={col.key}
+                        className="w-8 h-8 text-center font-mono text-gray-200 rounded"
+                        style={{ backgroundColor: count ? `rgba(139, 92, 246, ${0.1 + 0.7 * (count / maxPair)})` : 'rgba(255, 255, 255, 0.02)' }}
+                        title={count !== null ? `${count} rows mention both "${row.term}" and "${col.term}"` : undefined}
+                      >
+                        {count || ''}
+                      </td>
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+import React, { useMemo } from 'react';
+import { Languages } from 'lucide-react';
+import { DatasetRow, SentimentType } from '../types';
+import { buildLanguageBreakdown } from '../services/languageBreakdown';
+
+interface LanguagePanelProps {
+  rows: DatasetRow[];
+  activeLanguage: string | null;
+  onSelectLanguage: (code: string | null) => void;
+}
+
+const SEGMENTS: Array<{ sentiment: SentimentType; className: string }> = [
+  { sentiment: SentimentType.POSITIVE, className: 'bg-green-400' },
+  { sentiment: SentimentType.NEUTRAL, className: 'bg-yellow-400' },
+  { sentiment: SentimentType.NEGATIVE, className: 'bg-red-400' },
+];
+
+export const LanguagePanel: React.FC<LanguagePanelProps> = ({ rows, activeLanguage, onSelectLanguage }) => {
+  const languages = useMemo(() => buildLanguageBreakdown(rows), [rows]);
+  if (languages.length === 0) return null;
+
+  return (
+    <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5">
+      <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider mb-4 flex items-center gap-2">
+        <Languages className="w-4 h-4" />
+        By Language
+      </h3>
+      <ul className="space-y-3">
+        {languages.map(stat => (
+          <li key={stat.code}>
+            <button
+              onClick={() => onSelectLanguage(activeLanguage === stat.code ? null : stat.code)}
+              className={`w-full text-left space-y-1.5 rounded-lg p-2 -m-2 transition-colors ${activeLanguage === stat.code ? 'bg-white/10' : 'hover:bg-white/5'} ${activeLanguage && activeLanguage !== stat.code ? 'opacity-50' : ''}`}
+              title="Filter the table to this language"
+            >
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-white font-medium">{stat.name}</span>
+                <span className="text-xs text-gray-400 font-mono">
+                  {stat.count.toLocaleString()} rows · avg {stat.avgScore >= 0 ? '+' : ''}{stat.avgScore.toFixed(2)}
+                  {stat.emergencies > 0 && <span className="text-red-400"> · {stat.emergencies} urgent</span>}
+                </span>
+              </div>
+              <div className="flex h-2 rounded-full overflow-hidden bg-black/40">
+                {SEGMENTS.map(({ sentiment, className }) => stat.bySentiment[sentiment] > 0 && (
+                  <div
+                    key={sentiment}
+                    className={className}
+                    style={{ width: `${(stat.bySentiment[sentiment] / stat.count) * 100}%` }}
+                    title={`${sentiment}: ${stat.bySentiment[sentiment]}`}
+                  />
+                ))}
+              </div>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
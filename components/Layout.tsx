@@ -1,29 +1,37 @@
 import React, { useState } from 'react';
-import { MessageSquare, Mic, Database, BrainCircuit, History, X, Clock, ChevronRight } from 'lucide-react';
+import { MessageSquare, Mic, Database, BrainCircuit, History, GitCompare } from 'lucide-react';
 import { AnalyzerMode, HistoryItem } from '../types';
+import { useSentimentProvider } from './SentimentProviderContext';
+import { HistoryPanel } from './HistoryPanel';
+import { RetentionPolicy, StorageUsage } from '../services/historyStore';
+import { ImportStrategy, ImportSummary } from '../services/historyArchive';
+import { SUPPORTED_LANGUAGES } from '../services/languages';
 
 interface LayoutProps {
   currentMode: AnalyzerMode;
   setMode: (mode: AnalyzerMode) => void;
   history: HistoryItem[];
   onLoadHistory: (item: HistoryItem) => void;
+  onUpdateHistory: (id: string, patch: Partial<HistoryItem>) => void;
+  onDeleteHistory: (ids: string[]) => void;
+  onImportArchive: (file: Blob, strategy: ImportStrategy) => Promise<ImportSummary>;
+  retention: RetentionPolicy;
+  onRetentionChange: (policy: RetentionPolicy) => void;
+  storageUsage: StorageUsage | null;
   children: React.ReactNode;
 }
 
-export const Layout: React.FC<LayoutProps> = ({ currentMode, setMode, history, onLoadHistory, children }) => {
+export const Layout: React.FC<LayoutProps> = ({ currentMode, setMode, history, onLoadHistory, onUpdateHistory, onDeleteHistory, onImportArchive, retention, onRetentionChange, storageUsage, children }) => {
   const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const { provider, providers, setProviderId, language, setLanguage } = useSentimentProvider();
 
   const navItems = [
     { id: 'text', label: 'Text Analysis', icon: MessageSquare },
     { id: 'voice', label: 'Voice Analysis', icon: Mic },
     { id: 'dataset', label: 'Dataset Batch', icon: Database },
+    { id: 'compare', label: 'Compare Texts', icon: GitCompare },
   ];
 
-  const formatTime = (timestamp: number) => {
-    const date = new Date(timestamp);
-    return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
-  };
-
   return (
     <div className="min-h-screen bg-darker text-slate-200 flex flex-col md:flex-row overflow-hidden">
       {/* Main Navigation Sidebar */}
@@ -56,13 +64,29 @@ export const Layout: React.FC<LayoutProps> = ({ currentMode, setMode, history, o
 
         <div className="p-6 border-t border-white/5">
           <div className="bg-gradient-to-br from-indigo-900/50 to-purple-900/50 p-4 rounded-xl border border-white/10">
-            <h4 className="text-xs font-semibold uppercase text-indigo-300 mb-1">Architecture</h4>
-            <div className="flex items-center gap-2">
-               <span className="text-sm font-bold text-white">Python + BERT</span>
-            </div>
+            <h4 className="text-xs font-semibold uppercase text-indigo-300 mb-1">Analysis Engine</h4>
+            <select
+              value={provider.id}
+              onChange={(e) => setProviderId(e.target.value)}
+              className="w-full bg-darker/60 border border-white/10 rounded-lg px-2 py-1.5 text-sm font-bold text-white outline-none focus:border-primary/50"
+            >
+              {providers.map((p) => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
             <p className="text-[10px] text-indigo-200/60 mt-2 leading-relaxed">
-              Powered by Python backend algorithms using BERT Transformers for advanced NLU.
+              {provider.description}
             </p>
+            <h4 className="text-xs font-semibold uppercase text-indigo-300 mt-4 mb-1">Explanation Language</h4>
+            <select
+              value={language}
+              onChange={(e) => setLanguage(e.target.value)}
+              className="w-full bg-darker/60 border border-white/10 rounded-lg px-2 py-1.5 text-sm text-white outline-none focus:border-primary/50"
+            >
+              {Object.entries(SUPPORTED_LANGUAGES).map(([code, { name, nativeName }]) => (
+                <option key={code} value={code}>{name === nativeName ? name : `${name} · ${nativeName}`}</option>
+              ))}
+            </select>
           </div>
         </div>
       </aside>
@@ -79,6 +103,7 @@ export const Layout: React.FC<LayoutProps> = ({ currentMode, setMode, history, o
               {currentMode === 'text' && "Real-time sentiment detection for single text inputs."}
               {currentMode === 'voice' && "Multimodal audio processing to detect emotional tone."}
               {currentMode === 'dataset' && "Bulk processing of CSV/Text files with visual analytics."}
+              {currentMode === 'compare' && "Side-by-side sentiment of alternative versions of a text."}
             </p>
           </div>
 
@@ -103,63 +128,17 @@ export const Layout: React.FC<LayoutProps> = ({ currentMode, setMode, history, o
           isHistoryOpen ? 'translate-x-0' : 'translate-x-full'
         }`}
       >
-        <div className="p-6 border-b border-white/5 flex items-center justify-between bg-darker/50">
-          <h2 className="font-bold text-white flex items-center gap-2">
-            <History className="w-5 h-5 text-primary" />
-            Recent Analysis
-          </h2>
-          <button 
-            onClick={() => setIsHistoryOpen(false)}
-            className="text-gray-400 hover:text-white transition-colors"
-          >
-            <X className="w-5 h-5" />
-          </button>
-        </div>
-
-        <div className="flex-1 overflow-y-auto p-4 space-y-3">
-          {history.length === 0 ? (
-            <div className="text-center py-10 text-gray-500">
-              <Clock className="w-8 h-8 mx-auto mb-2 opacity-30" />
-              <p className="text-sm">No recent history</p>
-            </div>
-          ) : (
-            history.map((item) => (
-              <button
-                key={item.id}
-                onClick={() => {
-                  onLoadHistory(item);
-                  if (window.innerWidth < 768) setIsHistoryOpen(false);
-                }}
-                className="w-full text-left bg-darker/50 hover:bg-white/5 border border-white/5 hover:border-primary/30 rounded-xl p-3 transition-all group"
-              >
-                <div className="flex items-center justify-between mb-2">
-                   <div className="flex items-center gap-2">
-                      {item.mode === 'text' && <MessageSquare className="w-3 h-3 text-blue-400" />}
-                      {item.mode === 'voice' && <Mic className="w-3 h-3 text-purple-400" />}
-                      {item.mode === 'dataset' && <Database className="w-3 h-3 text-green-400" />}
-                      <span className="text-[10px] uppercase tracking-wider font-semibold text-gray-500">{item.mode}</span>
-                   </div>
-                   <span className="text-[10px] text-gray-600 font-mono">{formatTime(item.timestamp)}</span>
-                </div>
-                <div className="flex items-center justify-between gap-2">
-                   <p className="text-sm text-gray-300 truncate font-medium flex-1">{item.summary}</p>
-                   <ChevronRight className="w-4 h-4 text-gray-600 group-hover:text-primary transition-colors opacity-0 group-hover:opacity-100" />
-                </div>
-                {item.mode !== 'dataset' && item.data.result && (
-                   <div className="mt-2 flex items-center gap-2">
-                      <span className={`text-[10px] px-1.5 py-0.5 rounded border ${
-                         item.data.result.sentiment === 'Positive' ? 'bg-green-500/10 border-green-500/20 text-green-400' :
-                         item.data.result.sentiment === 'Negative' ? 'bg-red-500/10 border-red-500/20 text-red-400' :
-                         'bg-yellow-500/10 border-yellow-500/20 text-yellow-400'
-                      }`}>
-                        {item.data.result.sentiment}
-                      </span>
-                   </div>
-                )}
-              </button>
-            ))
-          )}
-        </div>
+        <HistoryPanel
+          history={history}
+          onLoadHistory={onLoadHistory}
+          onUpdateHistory={onUpdateHistory}
+          onDeleteHistory={onDeleteHistory}
+          onImportArchive={onImportArchive}
+          onClose={() => setIsHistoryOpen(false)}
+          retention={retention}
+          onRetentionChange={onRetentionChange}
+          storageUsage={storageUsage}
+        />
       </div>
 
       {/* Backdrop for mobile */}
@@ -0,0 +1,124 @@
+import React, { useEffect, useRef } from 'react';
+import { Radio, Siren } from 'lucide-react';
+import { SentimentType } from '../types';
+import { LiveChunk, liveScore, liveTranscript } from '../services/liveAnalysis';
+import { EmergencyPanel } from './EmergencyPanel';
+
+interface LiveMonitorProps {
+  chunks: LiveChunk[];
+  // Recording is still running
+  active: boolean;
+  chunkSeconds: number;
+  urgentChunk: LiveChunk | null;
+}
+
+const CHUNK_STYLES: Record<SentimentType, string> = {
+  [SentimentType.POSITIVE]: 'bg-green-400',
+  [SentimentType.NEGATIVE]: 'bg-red-400',
+  [SentimentType.NEUTRAL]: 'bg-yellow-400',
+};
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+// Half-circle gauge from −1 (left, negative) to +1 (right, positive)
+const Gauge: React.FC<{ score: number | null }> = ({ score }) => {
+  const angle = ((score ?? 0) + 1) / 2 * Math.PI;
+  const needleX = 60 - Math.cos(angle) * 42;
+  const needleY = 60 - Math.sin(angle) * 42;
+  // Needle colour only; the band around zero reads as neutral
+  const color = score === null ? '#64748b' : score > 0.2 ? '#4ade80' : score < -0.2 ? '#f87171' : '#fbbf24';
+
+  return (
+    <svg viewBox="0 0 120 70" className="w-40 h-auto">
+      <defs>
+        <linearGradient id="live-gauge" x1="0" x2="1" y1="0" y2="0">
+          <stop offset="0%" stopColor="#f87171" />
+          <stop offset="50%" stopColor="#fbbf24" />
+          <stop offset="100%" stopColor="#4ade80" />
+        </linearGradient>
+      </defs>
+      <path d="M 10 60 A 50 50 0 0 1 110 60" fill="none" stroke="url(#live-gauge)" strokeWidth="8" strokeLinecap="round" opacity={score === null ? 0.3 : 0.9} />
+      <line x1="60" y1="60" x2={needleX} y2={needleY} stroke={color} strokeWidth="3" strokeLinecap="round" className="transition-all duration-500" />
+      <circle cx="60" cy="60" r="4" fill={color} />
+    </svg>
+  );
+};
+
+// Running transcript and sentiment of a call while it is being recorded
+export const LiveMonitor: React.FC<LiveMonitorProps> = ({ chunks, active, chunkSeconds, urgentChunk }) => {
+  const transcriptRef = useRef<HTMLDivElement>(null);
+  const transcript = liveTranscript(chunks);
+  const score = liveScore(chunks);
+  const latest = [...chunks].reverse().find(c => c.result)?.result;
+  const pending = chunks.filter(c => c.status === 'pending').length;
+
+  // Keep the newest words in view
+  useEffect(() => {
+    const el = transcriptRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  }, [transcript]);
+
+  return (
+    <div className={`bg-card p-6 rounded-2xl shadow-lg border space-y-4 ${urgentChunk ? 'border-red-500/50' : 'border-white/5'}`}>
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Radio className="w-4 h-4" />
+          Live Analysis
+          {active && (
+            <span className="flex items-center gap-1.5 normal-case tracking-normal text-red-400">
+              <span className="w-2 h-2 rounded-full bg-red-500 animate-pulse" />
+              Live
+            </span>
+          )}
+        </h3>
+        <span className="text-xs text-gray-500">
+          {chunks.length} chunks · every {chunkSeconds}s{pending > 0 && ` · ${pending} analyzing`}
+        </span>
+      </div>
+
+      {urgentChunk && (
+        <div className="flex items-center gap-2 p-3 rounded-xl bg-red-500/15 border border-red-500/40 text-red-300 text-sm font-semibold animate-fade-in">
+          <Siren className="w-5 h-5 animate-pulse" />
+          {urgentChunk.result!.emergencyCategory} emergency indicated at {formatTime(urgentChunk.start)}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 md:grid-cols-[auto,1fr] gap-4 items-start">
+        <div className="flex flex-col items-center bg-black/20 rounded-xl p-4 border border-white/5">
+          <Gauge score={score} />
+          <span className="text-lg font-bold text-white mt-1">{latest ? latest.sentiment : 'Listening…'}</span>
+          <span className="text-xs text-gray-500 font-mono">
+            {score === null ? '—' : `${score >= 0 ? '+' : ''}${score.toFixed(2)}`} · recent average
+          </span>
+        </div>
+
+        <div className="bg-black/20 rounded-xl p-4 border border-white/5 space-y-3 min-w-0">
+          <div className="flex flex-wrap gap-1">
+            {chunks.map(chunk => (
+              <div
+                key={chunk.index}
+                className={`w-4 h-2 rounded-sm ${chunk.result ? CHUNK_STYLES[chunk.result.sentiment] : chunk.status === 'error' ? 'bg-orange-500/60' : 'bg-white/20 animate-pulse'}`}
+                title={`${formatTime(chunk.start)}–${formatTime(chunk.end)}: ${chunk.result ? chunk.result.sentiment : chunk.status === 'error' ? 'failed' : 'analyzing…'}`}
+              />
+            ))}
+          </div>
+          <div ref={transcriptRef} className="max-h-40 overflow-y-auto text-gray-200 leading-relaxed font-serif">
+            {transcript || <span className="text-gray-500 italic font-sans text-sm">The transcript appears here as each chunk is analyzed.</span>}
+            {pending > 0 && <span className="text-gray-500"> …</span>}
+          </div>
+        </div>
+      </div>
+
+      {urgentChunk && (
+        <EmergencyPanel
+          contextText={urgentChunk.result!.transcript || urgentChunk.result!.explanation}
+          category={urgentChunk.result!.emergencyCategory}
+        />
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Crosshair, Layers, Play, Plus, X } from 'lucide-react';
+import { AudioRegion, MAX_REGIONS } from '../services/audioRegions';
+
+interface RegionListProps {
+  regions: AudioRegion[];
+  onAdd: () => void;
+  onChange: (id: string, patch: Partial<AudioRegion>) => void;
+  onRemove: (id: string) => void;
+  // Moves the trim selection onto the region
+  onSelect: (region: AudioRegion) => void;
+  onPlay: (region: AudioRegion) => void;
+  disabled?: boolean;
+}
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 10);
+  return `${mins}:${secs.toString().padStart(2, '0')}.${ms}`;
+};
+
+// Labelled regions saved from the trim selection, each analyzed as its own clip
+export const RegionList: React.FC<RegionListProps> = ({ regions, onAdd, onChange, onRemove, onSelect, onPlay, disabled }) => (
+  <div className="pt-2 border-t border-white/5 space-y-2">
+    <div className="flex items-center justify-between">
+      <div className="flex items-center gap-2 text-xs text-gray-400">
+        <Layers className="w-3.5 h-3.5" />
+        <span className="font-semibold uppercase tracking-wider">Regions</span>
+        {regions.length > 0 && <span className="text-gray-500">{regions.length}/{MAX_REGIONS}</span>}
+      </div>
+      <button
+        onClick={onAdd}
+        disabled={disabled || regions.length >= MAX_REGIONS}
+        className="flex items-center gap-1 px-2 py-1 rounded-md text-xs text-secondary hover:bg-secondary/10 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+        title="Save the current selection as a labelled region"
+      >
+        <Plus className="w-3.5 h-3.5" />
+        Add selection
+      </button>
+    </div>
+
+    {regions.length === 0 ? (
+      <p className="text-xs text-gray-500">Save selections as regions to score parts of the call, such as the opening and the resolution, separately.</p>
+    ) : (
+      <ul className="space-y-1.5">
+        {regions.map(region => (
+          <li key={region.id} className="flex items-center gap-2 bg-black/20 rounded-lg px-2 py-1.5 border border-white/5">
+            <span className="w-2.5 h-2.5 rounded-full flex-shrink-0" style={{ backgroundColor: region.color }} />
+            <input
+              value={region.label}
+              onChange={e => onChange(region.id, { label: e.target.value })}
+              disabled={disabled}
+              className="flex-1 min-w-0 bg-transparent text-sm text-gray-200 outline-none border-b border-transparent focus:border-secondary/60"
+              aria-label="Region label"
+            />
+            <span className="text-[11px] font-mono text-gray-500 whitespace-nowrap">
+              {formatTime(region.start)}–{formatTime(region.end)}
+            </span>
+            <button onClick={() => onPlay(region)} className="p-1 text-gray-400 hover:text-green-400 transition-colors" title="Play region">
+              <Play className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onSelect(region)} disabled={disabled} className="p-1 text-gray-400 hover:text-secondary transition-colors disabled:opacity-40" title="Select region on the waveform">
+              <Crosshair className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onRemove(region.id)} disabled={disabled} className="p-1 text-gray-500 hover:text-red-400 transition-colors disabled:opacity-40" title="Remove region">
+              <X className="w-3.5 h-3.5" />
+            </button>
+          </li>
+        ))}
+      </ul>
+    )}
+  </div>
+);
@@ -0,0 +1,124 @@
+import React, { useMemo, useState } from 'react';
+import { ChevronDown, ChevronRight, Layers, Play } from 'lucide-react';
+import { SentimentType } from '../types';
+import { AudioRegion, RegionResult, summarizeRegions } from '../services/audioRegions';
+import { ReviewBadge } from './ReviewBadge';
+import { EmergencyPanel } from './EmergencyPanel';
+
+interface RegionResultsProps {
+  results: RegionResult[];
+  onPlay: (region: AudioRegion) => void;
+}
+
+const SENTIMENT_STYLES: Record<SentimentType, string> = {
+  [SentimentType.POSITIVE]: 'bg-green-500/10 border-green-500/30 text-green-400',
+  [SentimentType.NEGATIVE]: 'bg-red-500/10 border-red-500/30 text-red-400',
+  [SentimentType.NEUTRAL]: 'bg-yellow-500/10 border-yellow-500/30 text-yellow-400',
+};
+
+const SEGMENTS: Array<{ sentiment: SentimentType; className: string }> = [
+  { sentiment: SentimentType.POSITIVE, className: 'bg-green-400' },
+  { sentiment: SentimentType.NEUTRAL, className: 'bg-yellow-400' },
+  { sentiment: SentimentType.NEGATIVE, className: 'bg-red-400' },
+];
+
+const formatSigned = (value: number) => `${value > 0 ? '+' : value < 0 ? '−' : '±'}${Math.abs(value).toFixed(2)}`;
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 10);
+  return `${mins}:${secs.toString().padStart(2, '0')}.${ms}`;
+};
+
+// Per-region results in recording order, under a summary that weights each region by its length
+export const RegionResults: React.FC<RegionResultsProps> = ({ results, onPlay }) => {
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const summary = useMemo(() => summarizeRegions(results), [results]);
+  // The panel follows the first region that raised a category, else the first negative one
+  const urgent = summary.emergencies.find(r => r.result.sentiment === SentimentType.NEGATIVE)
+    ?? results.find(r => r.result.sentiment === SentimentType.NEGATIVE);
+
+  return (
+    <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5 animate-fade-in space-y-4">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <h3 className="text-sm font-semibold text-gray-400 uppercase tracking-wider flex items-center gap-2">
+          <Layers className="w-4 h-4" />
+          Region Results
+        </h3>
+        <div className="flex items-center gap-3 text-sm">
+          <span className={`px-2 py-1 rounded-md text-xs font-semibold border ${SENTIMENT_STYLES[summary.sentiment]}`}>
+            Overall {summary.sentiment}
+          </span>
+          <span className="font-mono text-gray-300" title="Duration-weighted average score">{formatSigned(summary.avgScore)}</span>
+          <span className="text-xs text-gray-500">{results.length} regions · {formatTime(summary.totalDuration)}</span>
+        </div>
+      </div>
+
+      <div className="flex h-2 rounded-full overflow-hidden bg-black/40">
+        {SEGMENTS.map(({ sentiment, className }) => summary.durationBySentiment[sentiment] > 0 && (
+          <div
+            key={sentiment}
+            className={className}
+            style={{ width: `${(summary.durationBySentiment[sentiment] / summary.totalDuration) * 100}%` }}
+            title={`${sentiment}: ${formatTime(summary.durationBySentiment[sentiment])}`}
+          />
+        ))}
+      </div>
+
+      {summary.emergencies.length > 0 && (
+        <p className="text-xs text-red-400">
+          Emergency indicators in {summary.emergencies.map(r => `${r.region.label} (${r.result.emergencyCategory})`).join(', ')}
+        </p>
+      )}
+
+      <ul className="space-y-2">
+        {results.map(({ region, result }) => {
+          const isOpen = expanded === region.id;
+          return (
+            <li key={region.id} className="bg-black/20 rounded-xl border border-white/5 overflow-hidden" style={{ borderLeft: `3px solid ${region.color}` }}>
+              <div className="flex items-center gap-3 p-3">
+                <button
+                  onClick={() => setExpanded(isOpen ? null : region.id)}
+                  className="flex-1 min-w-0 flex items-center gap-2 text-left"
+                >
+                  {isOpen ? <ChevronDown className="w-4 h-4 text-gray-500 flex-shrink-0" /> : <ChevronRight className="w-4 h-4 text-gray-500 flex-shrink-0" />}
+                  <span className="font-semibold text-white truncate">{region.label}</span>
+                  <span className="text-[11px] font-mono text-gray-500 whitespace-nowrap">{formatTime(region.start)}–{formatTime(region.end)}</span>
+                </button>
+                <ReviewBadge result={result} />
+                <span className={`px-2 py-0.5 rounded-md text-xs font-semibold border ${SENTIMENT_STYLES[result.sentiment]}`}>
+                  {result.sentiment}
+                </span>
+                <span className="w-12 text-right font-mono text-xs text-gray-300">{(result.score * 100).toFixed(0)}%</span>
+                <button onClick={() => onPlay(region)} className="p-1 text-gray-400 hover:text-green-400 transition-colors" title="Play region">
+                  <Play className="w-4 h-4" />
+                </button>
+              </div>
+              {result.transcript && !isOpen && (
+                <p className="px-3 pb-3 -mt-1 text-sm text-gray-400 italic truncate">"{result.transcript}"</p>
+              )}
+              {isOpen && (
+                <div className="px-3 pb-3 space-y-3 text-sm">
+                  {result.transcript && <p className="italic text-gray-200 leading-relaxed font-serif">"{result.transcript}"</p>}
+                  <p className="text-gray-400 leading-relaxed">{result.explanation}</p>
+                  {result.keywords.length > 0 && (
+                    <div className="flex flex-wrap gap-1.5">
+                      {result.keywords.map((k, i) => (
+                        <span key={i} className="px-2 py-0.5 rounded-full bg-white/10 text-xs border border-white/5 text-gray-300">{k}</span>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+      </ul>
+
+      {urgent && (
+        <EmergencyPanel contextText={urgent.result.transcript || urgent.result.explanation} category={urgent.result.emergencyCategory} />
+      )}
+    </div>
+  );
+};
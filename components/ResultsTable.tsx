@@ -0,0 +1,383 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ArrowDown, ArrowUp, ChevronRight, CheckCircle2, AlertCircle, HelpCircle, Loader2 } from 'lucide-react';
+import { DatasetRow, SentimentType } from '../types';
+import { languageName } from '../services/languages';
+import { getReviewFlags } from '../services/review';
+import { ReviewBadge } from './ReviewBadge';
+
+interface ResultsTableProps {
+  rows: DatasetRow[];
+}
+
+interface Column {
+  key: string;
+  label: string;
+  width: number;
+  // Value used for sorting; null sorts last regardless of direction
+  sortValue: (row: DatasetRow) => string | number | null;
+  render: (row: DatasetRow) => React.ReactNode;
+}
+
+type SortState = { key: string; direction: 'asc' | 'desc' } | null;
+
+const ROW_HEIGHT = 44;
+const DETAIL_HEIGHT = 168;
+const HEADER_HEIGHT = 36;
+// Rows rendered above and below the viewport to avoid blank flashes while scrolling
+const OVERSCAN = 8;
+const MIN_COLUMN_WIDTH = 60;
+
+const SENTIMENT_RANK: Record<SentimentType, number> = {
+  [SentimentType.POSITIVE]: 0,
+  [SentimentType.NEUTRAL]: 1,
+  [SentimentType.NEGATIVE]: 2,
+};
+
+const CATEGORY_RANK: Record<string, number> = { Health: 0, Safety: 1, General: 2, None: 3 };
+
+const METADATA_FIELDS: Array<['sourceId' | 'date' | 'author' | 'source' | 'label', string]> = [
+  ['sourceId', 'ID'],
+  ['date', 'Date'],
+  ['author', 'Author'],
+  ['source', 'Source'],
+  ['label', 'True label'],
+];
+
+const compareValues = (a: string | number, b: string | number) =>
+  typeof a === 'number' && typeof b === 'number'
+    ? a - b
+    : String(a).localeCompare(String(b), undefined, { numeric: true, sensitivity: 'base' });
+
+const SentimentBadge: React.FC<{ row: DatasetRow }> = ({ row }) => {
+  if (row.failed && !row.result) {
+    return (
+      <span className="inline-flex items-center gap-1.5 text-xs text-orange-300">
+        <AlertCircle className="w-3 h-3" /> Failed
+      </span>
+    );
+  }
+  if (!row.result) {
+    return (
+      <span className="inline-flex items-center gap-1.5 text-xs text-gray-500">
+        <Loader2 className="w-3 h-3 animate-spin" /> Pending
+      </span>
+    );
+  }
+  const { sentiment } = row.result;
+  return (
+    <span className={`inline-flex items-center gap-1.5 px-2 py-0.5 rounded-md text-xs font-semibold border ${
+      sentiment === SentimentType.POSITIVE ? 'bg-green-500/10 border-green-500/20 text-green-400' :
+      sentiment === SentimentType.NEGATIVE ? 'bg-red-500/10 border-red-500/20 text-red-400' :
+      'bg-yellow-500/10 border-yellow-500/20 text-yellow-400'
+    }`}>
+      {sentiment === SentimentType.POSITIVE ? <CheckCircle2 className="w-3 h-3" /> :
+       sentiment === SentimentType.NEGATIVE ? <AlertCircle className="w-3 h-3" /> :
+       <HelpCircle className="w-3 h-3" />}
+      {sentiment}
+    </span>
+  );
+};
+
+// Index of the last row whose top offset is at or above `position`
+const findRowAt = (offsets: number[], position: number) => {
+  let low = 0;
+  let high = offsets.length - 1;
+  while (low < high) {
+    const mid = Math.ceil((low + high) / 2);
+    if (offsets[mid] <= position) low = mid;
+    else high = mid - 1;
+  }
+  return low;
+};
+
+/**
+ * Virtualized, sortable results grid. Only the rows in view are mounted, so
+ * datasets with tens of thousands of rows stay responsive. Rows expand in
+ * place to show the full text, explanation and every keyword.
+ */
+export const ResultsTable: React.FC<ResultsTableProps> = ({ rows }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [scrollTop, setScrollTop] = useState(0);
+  const [viewportHeight, setViewportHeight] = useState(0);
+  const [sort, setSort] = useState<SortState>(null);
+  const [expanded, setExpanded] = useState<Set<number>>(new Set());
+  const [activeIndex, setActiveIndex] = useState(0);
+  const [widths, setWidths] = useState<Record<string, number>>({});
+  const resizeRef = useRef<{ key: string; startX: number; startWidth: number } | null>(null);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(() => setViewportHeight(el.clientHeight));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  // Metadata columns are only shown when at least one row carries the field
+  const columns = useMemo((): Column[] => {
+    const present = new Set<string>();
+    const extraKeys = new Set<string>();
+    const hasLanguage = rows.some(row => row.result?.language);
+    rows.forEach(row => {
+      if (!row.metadata) return;
+      METADATA_FIELDS.forEach(([field]) => row.metadata![field] && present.add(field));
+      Object.keys(row.metadata.extra || {}).forEach(key => extraKeys.add(key));
+    });
+
+    return [
+      {
+        key: 'row', label: '#', width: 64,
+        sortValue: row => row.id,
+        render: row => <span className="font-mono text-gray-500">{row.id + 1}</span>,
+      },
+      {
+        key: 'text', label: 'Text', width: 360,
+        sortValue: row => row.text,
+        render: row => <span className="text-gray-300">{row.text}</span>,
+      },
+      {
+        key: 'sentiment', label: 'Sentiment', width: 120,
+        sortValue: row => row.result ? SENTIMENT_RANK[row.result.sentiment] : null,
+        render: row => <SentimentBadge row={row} />,
+      },
+      {
+        key: 'score', label: 'Score', width: 80,
+        sortValue: row => row.result?.score ?? null,
+        render: row => <span className="font-mono text-gray-400">{row.result ? row.result.score.toFixed(2) : ''}</span>,
+      },
+      {
+        key: 'review', label: 'Review', width: 90,
+        // Sorts by the number of flags raised, so the most doubtful rows come together
+        sortValue: row => row.result ? getReviewFlags(row.result).length : null,
+        render: row => row.result ? <ReviewBadge result={row.result} /> : null,
+      },
+      {
+        key: 'category', label: 'Category', width: 100,
+        sortValue: row => row.result ? CATEGORY_RANK[row.result.emergencyCategory] : null,
+        render: row => row.result && row.result.emergencyCategory !== 'None'
+          ? <span className="text-red-400 font-medium">{row.result.emergencyCategory}</span>
+          : <span className="text-gray-600">{row.result ? 'None' : ''}</span>,
+      },
+      ...(hasLanguage ? [{
+        key: 'language', label: 'Language', width: 100,
+        sortValue: (row: DatasetRow) => row.result?.language ? languageName(row.result.language) : null,
+        render: (row: DatasetRow) => <span className="text-gray-400">{row.result?.language ? languageName(row.result.language) : ''}</span>,
+      }] : []),
+      ...METADATA_FIELDS.filter(([field]) => present.has(field)).map(([field, label]): Column => ({
+        key: `meta:${field}`, label, width: field === 'date' ? 140 : 120,
+        sortValue: row => row.metadata?.[field] ?? null,
+        render: row => <span className="text-gray-400">{row.metadata?.[field]}</span>,
+      })),
+      ...[...extraKeys].map((key): Column => ({
+        key: `extra:${key}`, label: key, width: 120,
+        sortValue: row => row.metadata?.extra?.[key] ?? null,
+        render: row => <span className="text-gray-400">{row.metadata?.extra?.[key]}</span>,
+      })),
+    ];
+  }, [rows]);
+
+  const sortedRows = useMemo(() => {
+    if (!sort) return rows;
+    const column = columns.find(c => c.key === sort.key);
+    if (!column) return rows;
+    const factor = sort.direction === 'asc' ? 1 : -1;
+    return [...rows].sort((a, b) => {
+      const va = column.sortValue(a);
+      const vb = column.sortValue(b);
+      if (va === null || vb === null) return va === vb ? 0 : va === null ? 1 : -1;
+      return compareValues(va, vb) * factor;
+    });
+  }, [rows, columns, sort]);
+
+  // Top offset of every row; expanded rows are taller
+  const offsets = useMemo(() => {
+    const result = new Array<number>(sortedRows.length);
+    let top = 0;
+    sortedRows.forEach((row, i) => {
+      result[i] = top;
+      top += ROW_HEIGHT + (expanded.has(row.id) ? DETAIL_HEIGHT : 0);
+    });
+    return result;
+  }, [sortedRows, expanded]);
+
+  const rowHeight = (index: number) => ROW_HEIGHT + (expanded.has(sortedRows[index]?.id) ? DETAIL_HEIGHT : 0);
+  const totalHeight = sortedRows.length ? offsets[sortedRows.length - 1] + rowHeight(sortedRows.length - 1) : 0;
+  const widthOf = (column: Column) => widths[column.key] ?? column.width;
+  const totalWidth = columns.reduce((sum, c) => sum + widthOf(c), 0);
+
+  const bodyTop = Math.max(0, scrollTop - HEADER_HEIGHT);
+  const first = sortedRows.length ? Math.max(0, findRowAt(offsets, bodyTop) - OVERSCAN) : 0;
+  let last = first;
+  while (last < sortedRows.length && offsets[last] < bodyTop + viewportHeight) last++;
+  last = Math.min(sortedRows.length, last + OVERSCAN);
+
+  // Keep the active row in range when the data shrinks (filtering, clearing)
+  useEffect(() => {
+    setActiveIndex(i => Math.min(i, Math.max(0, sortedRows.length - 1)));
+  }, [sortedRows.length]);
+
+  const toggleSort = (key: string) => {
+    setSort(current =>
+      current?.key !== key ? { key, direction: 'asc' } :
+      current.direction === 'asc' ? { key, direction: 'desc' } :
+      null
+    );
+  };
+
+  const toggleExpanded = (id: number) => {
+    setExpanded(current => {
+      const next = new Set(current);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const scrollIntoView = (index: number) => {
+    const el = containerRef.current;
+    if (!el) return;
+    const top = offsets[index] + HEADER_HEIGHT;
+    const bottom = top + rowHeight(index);
+    if (top - HEADER_HEIGHT < el.scrollTop) el.scrollTop = top - HEADER_HEIGHT;
+    else if (bottom > el.scrollTop + el.clientHeight) el.scrollTop = bottom - el.clientHeight;
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (sortedRows.length === 0) return;
+    const page = Math.max(1, Math.floor(viewportHeight / ROW_HEIGHT) - 1);
+    const moves: Record<string, number> = {
+      ArrowDown: activeIndex + 1,
+      ArrowUp: activeIndex - 1,
+      PageDown: activeIndex + page,
+      PageUp: activeIndex - page,
+      Home: 0,
+      End: sortedRows.length - 1,
+    };
+
+    if (e.key in moves) {
+      e.preventDefault();
+      const next = Math.min(sortedRows.length - 1, Math.max(0, moves[e.key]));
+      setActiveIndex(next);
+      scrollIntoView(next);
+    } else if (e.key === 'Enter' || e.key === ' ') {
+      e.preventDefault();
+      toggleExpanded(sortedRows[activeIndex].id);
+    } else if (e.key === 'Escape' && expanded.size > 0) {
+      setExpanded(new Set());
+    }
+  };
+
+  const startResize = (e: React.PointerEvent, column: Column) => {
+    e.preventDefault();
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    resizeRef.current = { key: column.key, startX: e.clientX, startWidth: widthOf(column) };
+  };
+
+  const handleResize = (e: React.PointerEvent) => {
+    const drag = resizeRef.current;
+    if (!drag) return;
+    const width = Math.max(MIN_COLUMN_WIDTH, drag.startWidth + e.clientX - drag.startX);
+    setWidths(current => ({ ...current, [drag.key]: width }));
+  };
+
+  return (
+    <div
+      ref={containerRef}
+      role="grid"
+      aria-rowcount={sortedRows.length}
+      tabIndex={0}
+      onKeyDown={handleKeyDown}
+      onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+      className="flex-1 min-h-0 overflow-auto custom-scrollbar outline-none focus-visible:ring-1 focus-visible:ring-primary/40 text-sm"
+    >
+      <div style={{ width: totalWidth, minWidth: '100%' }}>
+        {/* Header */}
+        <div role="row" className="sticky top-0 z-10 flex bg-darker border-b border-white/10" style={{ height: HEADER_HEIGHT }}>
+          {columns.map(column => (
+            <div
+              key={column.key}
+              role="columnheader"
+              aria-sort={sort?.key === column.key ? (sort.direction === 'asc' ? 'ascending' : 'descending') : 'none'}
+              className="relative flex items-center shrink-0 select-none"
+              style={{ width: widthOf(column) }}
+            >
+              <button
+                onClick={() => toggleSort(column.key)}
+                className="flex-1 flex items-center gap-1 px-3 h-full text-left text-xs font-semibold uppercase tracking-wider text-gray-400 hover:text-white truncate"
+              >
+                <span className="truncate">{column.label}</span>
+                {sort?.key === column.key && (sort.direction === 'asc' ? <ArrowUp className="w-3 h-3 shrink-0" /> : <ArrowDown className="w-3 h-3 shrink-0" />)}
+              </button>
+              <div
+                onPointerDown={(e) => startResize(e, column)}
+                onPointerMove={handleResize}
+                onPointerUp={() => { resizeRef.current = null; }}
+                className="absolute right-0 top-0 h-full w-1.5 cursor-col-resize hover:bg-primary/40"
+              />
+            </div>
+          ))}
+        </div>
+
+        {/* Body */}
+        <div className="relative" style={{ height: totalHeight }}>
+          {sortedRows.slice(first, last).map((row, i) => {
+            const index = first + i;
+            const isExpanded = expanded.has(row.id);
+            return (
+              <div
+                key={row.id}
+                role="row"
+                aria-rowindex={index + 1}
+                aria-expanded={isExpanded}
+                aria-selected={index === activeIndex}
+                className={`absolute left-0 right-0 border-b border-white/5 ${index === activeIndex ? 'bg-white/5' : ''}`}
+                style={{ top: offsets[index], height: rowHeight(index) }}
+              >
+                <div
+                  className="flex items-center cursor-pointer hover:bg-white/5"
+                  style={{ height: ROW_HEIGHT }}
+                  onClick={() => {
+                    setActiveIndex(index);
+                    toggleExpanded(row.id);
+                  }}
+                >
+                  {columns.map((column, col) => (
+                    <div key={column.key} role="gridcell" className="px-3 shrink-0 truncate flex items-center gap-1" style={{ width: widthOf(column) }}>
+                      {col === 0 && <ChevronRight className={`w-3 h-3 text-gray-500 shrink-0 transition-transform ${isExpanded ? 'rotate-90' : ''}`} />}
+                      <span className="truncate">{column.render(row)}</span>
+                    </div>
+                  ))}
+                </div>
+
+                {isExpanded && (
+                  <div className="sticky left-0 px-10 py-3 space-y-2 overflow-y-auto custom-scrollbar bg-black/20" style={{ height: DETAIL_HEIGHT, maxWidth: containerRef.current?.clientWidth }}>
+                    <p className="text-gray-300 leading-relaxed">"{row.text}"</p>
+                    {row.result ? (
+                      <>
+                        <ReviewBadge result={row.result} detailed />
+                        {row.result.translation && (
+                          <p className="text-gray-400 text-xs leading-relaxed"><span className="text-gray-500">English:</span> {row.result.translation}</p>
+                        )}
+                        <p className="text-gray-400 text-xs leading-relaxed">{row.result.explanation}</p>
+                        {row.result.keywords.length > 0 && (
+                          <div className="flex flex-wrap gap-1">
+                            {row.result.keywords.map((k, j) => (
+                              <span key={j} className="px-2 py-0.5 bg-white/5 rounded text-[10px] text-gray-400">{k}</span>
+                            ))}
+                          </div>
+                        )}
+                      </>
+                    ) : (
+                      <p className="text-xs text-gray-500">Not analyzed yet.</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,38 @@
+import React from 'react';
+import { Eye } from 'lucide-react';
+import { AnalysisResult } from '../types';
+import { REVIEW_FLAG_LABELS, describeReviewFlags, getReviewFlags } from '../services/review';
+
+interface ReviewBadgeProps {
+  result: AnalysisResult;
+  // Also list each flag with its confidence; otherwise they only appear in the tooltip
+  detailed?: boolean;
+}
+
+// "Needs human review" marker for results whose label shouldn't be trusted as-is
+export const ReviewBadge: React.FC<ReviewBadgeProps> = ({ result, detailed }) => {
+  const flags = getReviewFlags(result);
+  if (flags.length === 0) return null;
+
+  const badge = (
+    <span
+      className={`inline-flex items-center gap-1 rounded-md border border-amber-500/40 bg-amber-500/15 text-amber-300 font-semibold whitespace-nowrap ${detailed ? 'px-2.5 py-1 text-xs' : 'px-1.5 py-0.5 text-[10px]'}`}
+      title={`Needs human review: ${describeReviewFlags(flags)}`}
+    >
+      <Eye className={detailed ? 'w-3.5 h-3.5' : 'w-3 h-3'} />
+      {detailed ? 'Needs human review' : 'Review'}
+    </span>
+  );
+  if (!detailed) return badge;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2">
+      {badge}
+      {flags.map(flag => (
+        <span key={flag.kind} className="px-2 py-0.5 rounded-md bg-black/30 border border-white/10 text-xs text-gray-200">
+          {REVIEW_FLAG_LABELS[flag.kind]} <span className="font-mono text-gray-400">{(flag.confidence * 100).toFixed(0)}%</span>
+        </span>
+      ))}
+    </div>
+  );
+};
@@ -0,0 +1,106 @@
+import React from 'react';
+import { LineChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { SentimentType } from '../types';
+import { SegmentAnalysis } from '../services/segmentation';
+
+interface SegmentTimelineProps {
+  duration: number;
+  segments: SegmentAnalysis[];
+  // Seconds from the start of the recording, or null when nothing is playing
+  playhead: number | null;
+  selected: number | null;
+  onSelect: (index: number) => void;
+}
+
+const SEGMENT_COLORS: Record<SentimentType, string> = {
+  [SentimentType.POSITIVE]: '#4ade80',
+  [SentimentType.NEGATIVE]: '#f87171',
+  [SentimentType.NEUTRAL]: '#fbbf24',
+};
+
+const tooltipStyle = {
+  contentStyle: { backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '8px', color: '#f8fafc' },
+  itemStyle: { color: '#f8fafc' },
+};
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  return `${mins}:${secs.toString().padStart(2, '0')}`;
+};
+
+const signedScore = ({ sentiment, score }: { sentiment: SentimentType; score: number }) =>
+  sentiment === SentimentType.POSITIVE ? score : sentiment === SentimentType.NEGATIVE ? -score : 0;
+
+// Segments laid out over the length of the recording, coloured by sentiment, with the score plotted above them
+export const SegmentTimeline: React.FC<SegmentTimelineProps> = ({ duration, segments, playhead, selected, onSelect }) => {
+  const data = segments.flatMap(({ segment, result }, index) => result ? [{
+    index,
+    time: (segment.start + segment.end) / 2,
+    score: Math.round(signedScore(result) * 100) / 100,
+    label: `${formatTime(segment.start)}–${formatTime(segment.end)} · ${result.sentiment}`,
+  }] : []);
+
+  const percentOf = (time: number) => (time / duration) * 100;
+
+  return (
+    <div className="space-y-1">
+      <div className="h-24">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart
+            data={data}
+            margin={{ top: 8, right: 0, bottom: 0, left: 0 }}
+            onClick={state => {
+              const point = data[Number(state?.activeTooltipIndex)];
+              if (point) onSelect(point.index);
+            }}
+            style={{ cursor: 'pointer' }}
+          >
+            <XAxis type="number" dataKey="time" domain={[0, duration]} hide />
+            <YAxis domain={[-1, 1]} hide />
+            <ReferenceLine y={0} stroke="#475569" strokeDasharray="3 3" />
+            {playhead !== null && <ReferenceLine x={playhead} stroke="#f8fafc" />}
+            <Tooltip
+              {...tooltipStyle}
+              labelFormatter={(_, payload) => payload?.[0]?.payload.label ?? ''}
+              formatter={(value) => [value, 'Score (−1 to +1)']}
+            />
+            <Line
+              type="monotone"
+              dataKey="score"
+              stroke="#a855f7"
+              strokeWidth={2}
+              dot={{ r: 2.5, fill: '#a855f7', strokeWidth: 0 }}
+              activeDot={{ r: 5 }}
+              isAnimationActive={false}
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="relative h-6 bg-black/40 rounded-md overflow-hidden">
+        {segments.map(({ segment, status, result }, index) => (
+          <button
+            key={index}
+            onClick={() => onSelect(index)}
+            className={`absolute top-0 bottom-0 border-x border-black/40 transition-all hover:brightness-125 ${status === 'pending' ? 'bg-white/10 animate-pulse' : status === 'error' ? 'bg-orange-500/40' : ''} ${selected === index ? 'ring-2 ring-inset ring-white' : ''}`}
+            style={{
+              left: `${percentOf(segment.start)}%`,
+              width: `${percentOf(segment.end - segment.start)}%`,
+              ...(result ? { backgroundColor: SEGMENT_COLORS[result.sentiment], opacity: 0.35 + result.score * 0.65 } : {}),
+            }}
+            title={`${formatTime(segment.start)}–${formatTime(segment.end)}: ${result ? `${result.sentiment} (${(result.score * 100).toFixed(0)}%)` : status === 'error' ? 'failed' : 'analyzing…'}`}
+          />
+        ))}
+        {playhead !== null && (
+          <div className="absolute top-0 bottom-0 w-px bg-white pointer-events-none" style={{ left: `${percentOf(playhead)}%` }} />
+        )}
+      </div>
+
+      <div className="flex justify-between text-[10px] text-gray-500 font-mono">
+        <span>0:00</span>
+        <span>{formatTime(duration)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Activity } from 'lucide-react';
+import { LineChart, Line, ReferenceLine, ResponsiveContainer, Tooltip, YAxis } from 'recharts';
+import { SentenceSentiment, SentimentType } from '../types';
+import { signedSentenceScore } from '../services/sentences';
+
+interface SentenceTimelineProps {
+  text: string;
+  sentences: SentenceSentiment[];
+}
+
+const SENTENCE_STYLES: Record<SentimentType, string> = {
+  [SentimentType.POSITIVE]: 'bg-green-500/15 text-green-300 decoration-green-400/60',
+  [SentimentType.NEGATIVE]: 'bg-red-500/15 text-red-300 decoration-red-400/60',
+  [SentimentType.NEUTRAL]: 'bg-yellow-500/5 text-gray-200 decoration-yellow-400/40',
+};
+
+const FAILED_STYLE = 'bg-orange-500/10 text-orange-300 decoration-orange-400/60 decoration-wavy underline';
+
+const tooltipStyle = {
+  contentStyle: { backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '8px', color: '#f8fafc' },
+  itemStyle: { color: '#f8fafc' },
+};
+
+const truncate = (text: string, length: number) => text.length > length ? `${text.slice(0, length - 1)}…` : text;
+
+// Input text with every sentence coloured by its own sentiment, plus a sparkline of the score through the document
+export const SentenceTimeline: React.FC<SentenceTimelineProps> = ({ text, sentences }) => {
+  const [activeIndex, setActiveIndex] = useState<number | null>(null);
+  const sentenceRefs = useRef<Array<HTMLSpanElement | null>>([]);
+
+  useEffect(() => setActiveIndex(null), [sentences]);
+
+  // Failed sentences leave a gap in the line rather than reading as neutral
+  const data = sentences.map((sentence, i) => ({
+    index: i,
+    score: sentence.failed ? null : Math.round(signedSentenceScore(sentence) * 100) / 100,
+    label: truncate(sentence.text, 60),
+  }));
+  const failedCount = sentences.filter(s => s.failed).length;
+
+  const focusSentence = (index: number) => {
+    setActiveIndex(index);
+    sentenceRefs.current[index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  };
+
+  const parts: React.ReactNode[] = [];
+  let cursor = 0;
+  sentences.forEach((sentence, i) => {
+    if (sentence.start > cursor) parts.push(text.slice(cursor, sentence.start));
+    parts.push(
+      <span
+        key={i}
+        ref={el => { sentenceRefs.current[i] = el; }}
+        onClick={() => setActiveIndex(i)}
+        title={sentence.failed ? `Sentence ${i + 1}: analysis failed` : `Sentence ${i + 1}: ${sentence.sentiment} (${(sentence.score * 100).toFixed(0)}%)`}
+        className={`rounded px-0.5 cursor-pointer transition-all ${sentence.failed ? FAILED_STYLE : SENTENCE_STYLES[sentence.sentiment]} ${activeIndex === i ? 'ring-2 ring-white/70 underline underline-offset-4' : ''}`}
+      >
+        {text.slice(sentence.start, sentence.end)}
+      </span>
+    );
+    cursor = sentence.end;
+  });
+  if (cursor < text.length) parts.push(text.slice(cursor));
+
+  return (
+    <div className="space-y-4">
+      <div className="bg-black/20 rounded-xl p-4 border border-white/5">
+        <div className="flex items-center justify-between gap-2 mb-2">
+          <div className="flex items-center gap-2 opacity-80">
+            <Activity className="w-4 h-4" />
+            <h4 className="text-sm font-semibold uppercase tracking-wide">Sentiment Timeline</h4>
+          </div>
+          <span className="text-xs opacity-60">
+            {sentences.length} sentences
+            {failedCount > 0 && <span className="text-orange-300"> · {failedCount} failed</span>}
+            {' '}· click a point to jump to it
+          </span>
+        </div>
+        <div className="h-24">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart
+              data={data}
+              margin={{ top: 8, right: 8, bottom: 8, left: 8 }}
+              onClick={state => {
+                const index = Number(state?.activeTooltipIndex);
+                if (Number.isInteger(index) && index >= 0 && index < sentences.length) focusSentence(index);
+              }}
+              style={{ cursor: 'pointer' }}
+            >
+              <YAxis domain={[-1, 1]} hide />
+              <ReferenceLine y={0} stroke="#475569" strokeDasharray="3 3" />
+              <Tooltip
+                {...tooltipStyle}
+                labelFormatter={(_, payload) => payload?.[0]?.payload.label ?? ''}
+                formatter={(value) => [value, 'Score (−1 to +1)']}
+              />
+              <Line
+                type="monotone"
+                dataKey="score"
+                stroke="#a855f7"
+                strokeWidth={2}
+                dot={{ r: 2.5, fill: '#a855f7', strokeWidth: 0 }}
+                activeDot={{ r: 5 }}
+                isAnimationActive={false}
+              />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="bg-black/20 rounded-xl p-4 border border-white/5">
+        <p className="leading-loose text-lg whitespace-pre-wrap">{parts}</p>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,68 @@
+import React, { createContext, useContext, useMemo, useState } from 'react';
+import { SentimentProvider, withDefaultOptions } from '../services/sentimentProvider';
+import { DEFAULT_PROVIDER_ID, getProvider, listProviders } from '../services/providerRegistry';
+import { browserLanguage } from '../services/languages';
+
+interface SentimentProviderContextValue {
+  provider: SentimentProvider;
+  providers: SentimentProvider[];
+  setProviderId: (id: string) => void;
+  // Language explanations are written in; applied to every request made through `provider`
+  language: string;
+  setLanguage: (code: string) => void;
+}
+
+const SentimentProviderContext = createContext<SentimentProviderContextValue | null>(null);
+
+interface SentimentProviderProviderProps {
+  children: React.ReactNode;
+}
+
+export const SentimentProviderProvider: React.FC<SentimentProviderProviderProps> = ({ children }) => {
+  // Persist the selected backend in localStorage
+  const [providerId, setProviderIdState] = useState(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('sentimind_provider') || DEFAULT_PROVIDER_ID;
+    }
+    return DEFAULT_PROVIDER_ID;
+  });
+
+  const [language, setLanguageState] = useState(() => {
+    if (typeof window !== 'undefined') {
+      return localStorage.getItem('sentimind_language') || browserLanguage();
+    }
+    return browserLanguage();
+  });
+
+  const setProviderId = (id: string) => {
+    setProviderIdState(id);
+    localStorage.setItem('sentimind_provider', id);
+  };
+
+  const setLanguage = (code: string) => {
+    setLanguageState(code);
+    localStorage.setItem('sentimind_language', code);
+  };
+
+  const value = useMemo(() => ({
+    provider: withDefaultOptions(getProvider(providerId), { explanationLanguage: language }),
+    providers: listProviders(),
+    setProviderId,
+    language,
+    setLanguage,
+  }), [providerId, language]);
+
+  return (
+    <SentimentProviderContext.Provider value={value}>
+      {children}
+    </SentimentProviderContext.Provider>
+  );
+};
+
+export const useSentimentProvider = (): SentimentProviderContextValue => {
+  const context = useContext(SentimentProviderContext);
+  if (!context) {
+    throw new Error("useSentimentProvider must be used within a SentimentProviderProvider");
+  }
+  return context;
+};
@@ -1,8 +1,19 @@
 import React, { useState, useEffect } from 'react';
 import { Send, Loader2, AlertCircle, CheckCircle2, Quote } from 'lucide-react';
-import { analyzeText } from '../services/geminiService';
+import { useSentimentProvider } from './SentimentProviderContext';
 import { AnalysisResult, SentimentType } from '../types';
 import { EmergencyPanel } from './EmergencyPanel';
+import { AnalysisErrorCard } from './AnalysisErrorCard';
+import { AspectBreakdown } from './AspectBreakdown';
+import { AnalysisOptionsPicker } from './AnalysisOptionsPicker';
+import { EmotionRadar } from './EmotionRadar';
+import { SentenceTimeline } from './SentenceTimeline';
+import { TranslationPanel } from './TranslationPanel';
+import { ReviewBadge } from './ReviewBadge';
+import { HighlightedText } from './HighlightedText';
+import { AnalysisOptions } from '../services/sentimentProvider';
+import { groupSegments, splitSentences, toSentenceSentiments } from '../services/sentences';
+import { languageName } from '../services/languages';
 
 interface TextAnalyzerProps {
   onAnalyzeComplete: (input: string, result: AnalysisResult) => void;
@@ -13,11 +24,18 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({ onAnalyzeComplete, i
   const [input, setInput] = useState('');
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  const [options, setOptions] = useState<AnalysisOptions>({});
+  const [sentenceMode, setSentenceMode] = useState(false);
+  // Text the current result was produced from; sentence offsets index into it
+  const [analyzedInput, setAnalyzedInput] = useState('');
+  const { provider } = useSentimentProvider();
 
   // Load initial state if provided (from history)
   useEffect(() => {
     if (initialState) {
       setInput(initialState.input);
+      setAnalyzedInput(initialState.input);
       setResult(initialState.result);
     }
   }, [initialState]);
@@ -25,13 +43,34 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({ onAnalyzeComplete, i
   const handleAnalyze = async () => {
     if (!input.trim()) return;
     setLoading(true);
+    setError(null);
     try {
-      const data = await analyzeText(input);
+      let data: AnalysisResult;
+      if (sentenceMode) {
+        // The whole text and each sentence are scored side by side; the provider's queue paces the requests
+        const segments = groupSegments(input, splitSentences(input));
+        // Failed rows come back as neutral placeholders; the queue's events tell them apart
+        const failed = new Set<number>();
+        const [overall, sentenceResults] = await Promise.all([
+          provider.analyzeText(input, options),
+          // Sentences only need sentiment and score, so the optional analyses are not requested for them
+          provider.analyzeBatch(segments.map(s => s.text), {
+            onJobEvent: (index, event) => {
+              if (event.status === 'failed') failed.add(index);
+            },
+          }),
+        ]);
+        data = { ...overall, sentences: toSentenceSentiments(segments, sentenceResults, failed) };
+      } else {
+        data = await provider.analyzeText(input, options);
+      }
+      setAnalyzedInput(input);
       setResult(data);
       onAnalyzeComplete(input, data);
     } catch (error) {
       console.error(error);
-      alert("Failed to analyze text. Please check your API key.");
+      setResult(null);
+      setError(error);
     } finally {
       setLoading(false);
     }
@@ -45,37 +84,6 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({ onAnalyzeComplete, i
     }
   };
 
-  const renderHighlightedText = (text: string, keywords: string[]) => {
-    if (!keywords || keywords.length === 0) return text;
-
-    // Sort keywords by length descending to match longest phrases first
-    const uniqueKeywords = Array.from(new Set(keywords)).sort((a, b) => b.length - a.length);
-    if (uniqueKeywords.length === 0) return text;
-
-    // Escape special regex characters
-    const escapedKeywords = uniqueKeywords.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
-    const pattern = new RegExp(`(${escapedKeywords.join('|')})`, 'gi');
-
-    const parts = text.split(pattern);
-
-    return parts.map((part, index) => {
-      // Check if this part matches any keyword (case-insensitive)
-      const isKeyword = uniqueKeywords.some(k => k.toLowerCase() === part.toLowerCase());
-      
-      if (isKeyword) {
-        return (
-          <span 
-            key={index} 
-            className="bg-white/10 px-1 py-0.5 rounded font-bold border-b-2 border-current shadow-[0_0_10px_rgba(255,255,255,0.1)]"
-          >
-            {part}
-          </span>
-        );
-      }
-      return part;
-    });
-  };
-
   return (
     <div className="max-w-3xl mx-auto space-y-6">
       <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5">
@@ -96,7 +104,20 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({ onAnalyzeComplete, i
           </div>
         </div>
 
-        <div className="mt-4 flex justify-end">
+        <div className="mt-4 flex items-center justify-between gap-4">
+          <div className="flex flex-wrap items-center gap-x-4 gap-y-2">
+            <AnalysisOptionsPicker value={options} onChange={setOptions} disabled={loading} />
+            <label className="flex items-center gap-2 text-sm text-gray-400 cursor-pointer select-none">
+              <input
+                type="checkbox"
+                checked={sentenceMode}
+                disabled={loading}
+                onChange={(e) => setSentenceMode(e.target.checked)}
+                className="accent-primary"
+              />
+              Sentence timeline
+            </label>
+          </div>
           <button
             onClick={handleAnalyze}
             disabled={loading || !input.trim()}
@@ -108,6 +129,10 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({ onAnalyzeComplete, i
         </div>
       </div>
 
+      {error && !result && (
+        <AnalysisErrorCard error={error} onRetry={handleAnalyze} retrying={loading} />
+      )}
+
       {result && (
         <div className={`p-6 rounded-2xl border animate-fade-in ${getSentimentColor(result.sentiment)}`}>
           <div className="flex items-start justify-between mb-4">
@@ -118,31 +143,48 @@ export const TextAnalyzer: React.FC<TextAnalyzerProps> = ({ onAnalyzeComplete, i
               <div>
                 <h3 className="text-2xl font-bold uppercase tracking-wide">{result.sentiment}</h3>
                 <p className="text-sm opacity-80">Confidence Score: {(result.score * 100).toFixed(1)}%</p>
+                {result.language && <p className="text-sm opacity-80">Language: {languageName(result.language)}</p>}
               </div>
             </div>
             <div className="text-right">
               <span className="text-xs uppercase tracking-wider opacity-60">Engine</span>
-              <div className="font-mono text-sm">Python (BERT)</div>
+              <div className="font-mono text-sm">{provider.label}</div>
             </div>
           </div>
           
           <div className="space-y-4">
-            {/* Highlighted Transcript/Text */}
-            <div className="bg-black/20 rounded-xl p-4 border border-white/5">
-                <div className="flex items-center gap-2 mb-2 opacity-80">
-                  <Quote className="w-4 h-4" />
-                  <h4 className="text-sm font-semibold uppercase tracking-wide">Input Analysis</h4>
+            <ReviewBadge result={result} detailed />
+
+            {result.sentences && result.sentences.length > 0 ? (
+              <>
+                <SentenceTimeline text={analyzedInput} sentences={result.sentences} />
+                {result.translation && <TranslationPanel translation={result.translation} language={result.language} />}
+              </>
+            ) : (
+              <div className={result.translation ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : ''}>
+                {/* Highlighted Transcript/Text */}
+                <div className="bg-black/20 rounded-xl p-4 border border-white/5">
+                    <div className="flex items-center gap-2 mb-2 opacity-80">
+                      <Quote className="w-4 h-4" />
+                      <h4 className="text-sm font-semibold uppercase tracking-wide">Input Analysis</h4>
+                    </div>
+                    <p className="opacity-90 leading-relaxed text-lg whitespace-pre-wrap">
+                      <HighlightedText text={result.transcript || input} keywords={result.keywords} />
+                    </p>
                 </div>
-                <p className="opacity-90 leading-relaxed text-lg whitespace-pre-wrap">
-                  {renderHighlightedText(result.transcript || input, result.keywords)}
-                </p>
-            </div>
+                {result.translation && <TranslationPanel translation={result.translation} language={result.language} />}
+              </div>
+            )}
 
             <div className="bg-black/20 rounded-xl p-4">
               <h4 className="text-sm font-semibold mb-2 opacity-90">Analysis</h4>
               <p className="opacity-80 leading-relaxed">{result.explanation}</p>
             </div>
 
+            {result.aspects && <AspectBreakdown aspects={result.aspects} />}
+
+            {result.emotions && result.emotions.length > 0 && <EmotionRadar emotions={result.emotions} />}
+
             {result.keywords.length > 0 && (
               <div>
                 <h4 className="text-sm font-semibold mb-2 opacity-90">Key Drivers</h4>
@@ -0,0 +1,72 @@
+import React, { useMemo } from 'react';
+import { TranscriptWord } from '../types';
+import { keywordRanges } from '../services/highlight';
+import { alignWords, wordIndexAt } from '../services/transcriptWords';
+import { KEYWORD_HIGHLIGHT_CLASS } from './HighlightedText';
+
+interface TimedTranscriptProps {
+  transcript: string;
+  words: TranscriptWord[];
+  keywords: string[];
+  // Playback position in seconds from the start of the analyzed clip, or null when stopped
+  currentTime: number | null;
+  // Called with the clicked word's start, in seconds from the start of the analyzed clip
+  onSeek: (time: number) => void;
+}
+
+interface Piece {
+  start: number;
+  end: number;
+  word: number;
+  keyword: boolean;
+}
+
+// Transcript whose words follow playback and seek the audio when clicked; keywords are emphasised as in the text view
+export const TimedTranscript: React.FC<TimedTranscriptProps> = ({ transcript, words, keywords, currentTime, onSeek }) => {
+  // Cut the transcript wherever a word or keyword starts or ends, then group the cuts by word
+  const groups = useMemo(() => {
+    const aligned = alignWords(transcript, words);
+    const highlights = keywordRanges(transcript, keywords);
+    const cuts = Array.from(new Set([0, transcript.length, ...[...aligned, ...highlights].flatMap(r => [r.start, r.end])])).sort((a, b) => a - b);
+
+    const result: Piece[][] = [];
+    for (let i = 0; i < cuts.length - 1; i++) {
+      const start = cuts[i];
+      const piece: Piece = {
+        start,
+        end: cuts[i + 1],
+        word: aligned.find(r => r.start <= start && start < r.end)?.word ?? -1,
+        keyword: highlights.some(r => r.start <= start && start < r.end),
+      };
+      const last = result[result.length - 1];
+      if (last && piece.word >= 0 && last[0].word === piece.word) last.push(piece);
+      else result.push([piece]);
+    }
+    return result;
+  }, [transcript, words, keywords]);
+
+  const active = currentTime === null ? -1 : wordIndexAt(words, currentTime);
+
+  const renderPieces = (pieces: Piece[]) => pieces.map(p => p.keyword
+    ? <span key={p.start} className={KEYWORD_HIGHLIGHT_CLASS}>{transcript.slice(p.start, p.end)}</span>
+    : <React.Fragment key={p.start}>{transcript.slice(p.start, p.end)}</React.Fragment>);
+
+  return (
+    <>
+      {groups.map(pieces => {
+        const word = pieces[0].word;
+        if (word < 0) return <React.Fragment key={pieces[0].start}>{renderPieces(pieces)}</React.Fragment>;
+        return (
+          <span
+            key={pieces[0].start}
+            onClick={() => onSeek(words[word].start)}
+            title={`Play from ${words[word].start.toFixed(1)}s`}
+            className={`cursor-pointer rounded transition-colors ${word === active ? 'bg-secondary/40 text-white' : 'hover:bg-white/10'}`}
+          >
+            {renderPieces(pieces)}
+          </span>
+        );
+      })}
+    </>
+  );
+};
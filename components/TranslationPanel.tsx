@@ -0,0 +1,20 @@
+import React from 'react';
+import { Languages } from 'lucide-react';
+import { languageName } from '../services/languages';
+
+interface TranslationPanelProps {
+  translation: string;
+  language?: string;
+}
+
+// English translation shown beside the original text or transcript
+export const TranslationPanel: React.FC<TranslationPanelProps> = ({ translation, language }) => (
+  <div className="bg-black/20 rounded-xl p-4 border border-white/5">
+    <div className="flex items-center gap-2 mb-2 opacity-80">
+      <Languages className="w-4 h-4" />
+      <h4 className="text-sm font-semibold uppercase tracking-wide">English Translation</h4>
+      {language && <span className="text-xs normal-case opacity-70">from {languageName(language)}</span>}
+    </div>
+    <p className="opacity-90 leading-relaxed text-gray-200 whitespace-pre-wrap">{translation}</p>
+  </div>
+);
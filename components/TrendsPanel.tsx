@@ -0,0 +1,153 @@
+import React, { useMemo, useState } from 'react';
+import { TrendingUp } from 'lucide-react';
+import {
+  AreaChart, Area, LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Legend,
+} from 'recharts';
+import { DatasetRow, SentimentType } from '../types';
+import { TREND_BUCKET_LABELS, TrendBucket, buildTrendSeries } from '../services/trends';
+
+interface TrendsPanelProps {
+  rows: DatasetRow[];
+}
+
+const COLORS = {
+  [SentimentType.POSITIVE]: '#4ade80',
+  [SentimentType.NEGATIVE]: '#f87171',
+  [SentimentType.NEUTRAL]: '#fbbf24',
+};
+
+const ROLLING_OPTIONS = [1, 3, 7, 14];
+
+const tooltipStyle = {
+  contentStyle: { backgroundColor: '#0f172a', borderColor: '#1e293b', borderRadius: '8px', color: '#f8fafc' },
+  itemStyle: { color: '#f8fafc' },
+};
+
+const axisTick = { fill: '#64748b', fontSize: 10 };
+
+export const TrendsPanel: React.FC<TrendsPanelProps> = ({ rows }) => {
+  const [bucket, setBucket] = useState<TrendBucket>('day');
+  const [rollingWindow, setRollingWindow] = useState(7);
+
+  const points = useMemo(() => buildTrendSeries(rows, bucket, rollingWindow), [rows, bucket, rollingWindow]);
+  const spikes = points.filter(p => p.spike);
+
+  const chartData = points.map((p): Record<string, string | number | null> => ({
+    label: p.label,
+    [SentimentType.POSITIVE]: Math.round(p.positiveShare * 1000) / 10,
+    [SentimentType.NEUTRAL]: Math.round(p.neutralShare * 1000) / 10,
+    [SentimentType.NEGATIVE]: Math.round(p.negativeShare * 1000) / 10,
+    avgScore: p.avgScore === null ? null : Number(p.avgScore.toFixed(3)),
+    rolling: p.rollingAvgScore === null ? null : Number(p.rollingAvgScore.toFixed(3)),
+    rows: p.total,
+  }));
+
+  const spikeLines = spikes.map(p => (
+    <ReferenceLine
+      key={p.start}
+      x={p.label}
+      stroke={p.spike === 'emergency' ? '#ef4444' : '#f87171'}
+      strokeDasharray={p.spike === 'emergency' ? undefined : '3 3'}
+      label={{ value: p.spike === 'emergency' ? '⚠' : '▼', position: 'top', fill: '#f87171', fontSize: 11 }}
+    />
+  ));
+
+  return (
+    <div className="bg-card p-6 rounded-2xl shadow-lg border border-white/5 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <h2 className="text-lg font-semibold text-white flex items-center gap-2">
+          <span className="bg-primary/20 p-2 rounded-lg text-primary"><TrendingUp className="w-4 h-4" /></span>
+          Sentiment Trends
+        </h2>
+        <div className="flex items-center gap-3 text-xs">
+          <div className="flex bg-black/20 rounded-lg p-1 border border-white/5">
+            {(Object.keys(TREND_BUCKET_LABELS) as TrendBucket[]).map(b => (
+              <button
+                key={b}
+                onClick={() => setBucket(b)}
+                className={`px-3 py-1 rounded-md transition-colors ${bucket === b ? 'bg-white/10 text-white' : 'text-gray-400 hover:text-white'}`}
+              >
+                {TREND_BUCKET_LABELS[b]}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-gray-400">
+            Rolling
+            <select
+              value={rollingWindow}
+              onChange={(e) => setRollingWindow(Number(e.target.value))}
+              className="bg-darker border border-white/10 rounded-lg px-2 py-1 text-gray-200 outline-none"
+            >
+              {ROLLING_OPTIONS.map(n => (
+                <option key={n} value={n}>{n === 1 ? 'Off' : `${n} ${TREND_BUCKET_LABELS[bucket].toLowerCase()}s`}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      {points.length < 2 ? (
+        <p className="text-sm text-gray-500">All dated rows fall into a single {bucket}. Pick a smaller bucket to see a trend.</p>
+      ) : (
+        <div className="grid grid-cols-1 xl:grid-cols-2 gap-6">
+          <div>
+            <p className="text-xs text-gray-500 mb-2">Sentiment share (%)</p>
+            <div className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <AreaChart data={chartData} margin={{ top: 15, right: 10, bottom: 0, left: -20 }}>
+                  <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+                  <XAxis dataKey="label" tick={axisTick} minTickGap={20} />
+                  <YAxis domain={[0, 100]} tick={axisTick} />
+                  <Tooltip {...tooltipStyle} />
+                  <Legend iconType="circle" wrapperStyle={{ fontSize: 11 }} />
+                  {[SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE].map(s => (
+                    <Area key={s} type="monotone" dataKey={s as string} stackId="share" stroke={COLORS[s]} fill={COLORS[s]} fillOpacity={0.3} isAnimationActive={false} />
+                  ))}
+                  {spikeLines}
+                </AreaChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+
+          <div>
+            <p className="text-xs text-gray-500 mb-2">Average score (Positive +, Negative −)</p>
+            <div className="h-[220px]">
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={chartData} margin={{ top: 15, right: 10, bottom: 0, left: -20 }}>
+                  <CartesianGrid stroke="#1e293b" strokeDasharray="3 3" />
+                  <XAxis dataKey="label" tick={axisTick} minTickGap={20} />
+                  <YAxis domain={[-1, 1]} ticks={[-1, -0.5, 0, 0.5, 1]} tick={axisTick} />
+                  <Tooltip {...tooltipStyle} />
+                  <Legend iconType="circle" wrapperStyle={{ fontSize: 11 }} />
+                  <ReferenceLine y={0} stroke="#475569" />
+                  <Line type="monotone" dataKey="avgScore" name="Average" stroke="#64748b" dot={false} connectNulls isAnimationActive={false} />
+                  {rollingWindow > 1 && (
+                    <Line type="monotone" dataKey="rolling" name={`${rollingWindow}-${bucket} rolling`} stroke="#a78bfa" strokeWidth={2} dot={false} connectNulls isAnimationActive={false} />
+                  )}
+                  {spikeLines}
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {spikes.length > 0 && (
+        <div className="space-y-1">
+          <p className="text-xs uppercase tracking-wider text-gray-500 font-semibold">Spikes</p>
+          <ul className="text-xs text-gray-400 space-y-1">
+            {spikes.map(p => (
+              <li key={p.start} className="flex items-center gap-2">
+                <span className={p.spike === 'emergency' ? 'text-red-400' : 'text-red-300'}>{p.spike === 'emergency' ? '⚠' : '▼'}</span>
+                <span className="text-gray-300">{p.label}</span>
+                {p.spike === 'emergency'
+                  ? `${p.emergencies} emergency-category rows`
+                  : `${p.negative} Negative rows (${Math.round(p.negativeShare * 100)}% of ${p.total})`}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+};
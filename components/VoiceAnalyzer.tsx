@@ -1,73 +1,31 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { Mic, Square, Upload, Loader2, Volume2, Scissors, Play, Pause, RotateCcw, StopCircle, Quote } from 'lucide-react';
-import { analyzeAudio } from '../services/geminiService';
+import { Mic, Square, Upload, Loader2, Volume2, Scissors, Play, Pause, RotateCcw, StopCircle, Quote, Layers, AlertCircle } from 'lucide-react';
+import { useSentimentProvider } from './SentimentProviderContext';
 import { AnalysisResult, SentimentType } from '../types';
 import { EmergencyPanel } from './EmergencyPanel';
-
-// Helper to encode AudioBuffer to WAV Blob
-const audioBufferToWav = (buffer: AudioBuffer, start: number, end: number): Blob => {
-  const sampleRate = buffer.sampleRate;
-  const startSample = Math.floor(start * sampleRate);
-  const endSample = Math.floor(end * sampleRate);
-  // Ensure we don't go out of bounds
-  const actualEndSample = Math.min(endSample, buffer.length);
-  const frameCount = actualEndSample - startSample;
-  
-  if (frameCount <= 0) return new Blob([], {type: 'audio/wav'});
-
-  const numChannels = buffer.numberOfChannels;
-  const length = frameCount * numChannels * 2 + 44;
-  
-  const bufferArr = new ArrayBuffer(length);
-  const view = new DataView(bufferArr);
-  const channels = [];
-  let i;
-  let sample;
-  let offset = 0;
-  let pos = 0;
-
-  // write WAVE header
-  const setUint16 = (data: number) => { view.setUint16(pos, data, true); pos += 2; };
-  const setUint32 = (data: number) => { view.setUint32(pos, data, true); pos += 4; };
-
-  setUint32(0x46464952); // "RIFF"
-  setUint32(length - 8); // file length - 8
-  setUint32(0x45564157); // "WAVE"
-
-  setUint32(0x20746d66); // "fmt " chunk
-  setUint32(16); // length = 16
-  setUint16(1); // PCM (uncompressed)
-  setUint16(numChannels);
-  setUint32(sampleRate);
-  setUint32(sampleRate * 2 * numChannels); // avg. bytes/sec
-  setUint16(numChannels * 2); // block-align
-  setUint16(16); // 16-bit
-
-  setUint32(0x61746164); // "data" - chunk
-  setUint32(length - pos - 4); // chunk length
-
-  // Get channel data
-  for(i = 0; i < numChannels; i++)
-    channels.push(buffer.getChannelData(i));
-
-  // Write interleaved data
-  let currentSample = startSample;
-  while(currentSample < actualEndSample) {
-    for(i = 0; i < numChannels; i++) {
-      // Clamp and scale to 16-bit
-      sample = Math.max(-1, Math.min(1, channels[i][currentSample])); 
-      sample = (sample < 0 ? sample * 0x8000 : sample * 0x7FFF) | 0; 
-      view.setInt16(44 + offset, sample, true);
-      offset += 2;
-    }
-    currentSample++;
-  }
-
-  return new Blob([bufferArr], {type: "audio/wav"});
-};
+import { AnalysisErrorCard } from './AnalysisErrorCard';
+import { AnalysisOptionsPicker } from './AnalysisOptionsPicker';
+import { AspectBreakdown } from './AspectBreakdown';
+import { EmotionRadar } from './EmotionRadar';
+import { TranslationPanel } from './TranslationPanel';
+import { ReviewBadge } from './ReviewBadge';
+import { AnalysisOptions } from '../services/sentimentProvider';
+import { languageName } from '../services/languages';
+import { audioBufferToWav, blobToBase64 } from '../services/audio';
+import { AudioRegion, RegionResult, createRegion, sortRegions } from '../services/audioRegions';
+import { WaveformTrimmer } from './WaveformTrimmer';
+import { HighlightedText } from './HighlightedText';
+import { TimedTranscript } from './TimedTranscript';
+import { RegionList } from './RegionList';
+import { RegionResults } from './RegionResults';
+import { AutoSegmenter } from './AutoSegmenter';
+import { LiveMonitor } from './LiveMonitor';
+import { CHUNK_LENGTHS, DEFAULT_CHUNK_SECONDS } from '../services/liveAnalysis';
+import { useLiveAnalysis } from '../hooks/useLiveAnalysis';
 
 interface VoiceAnalyzerProps {
-  onAnalyzeComplete: (audioUrl: string, result: AnalysisResult) => void;
+  // `label` names the region the clip was cut from, when it was analyzed as one
+  onAnalyzeComplete: (audio: Blob, result: AnalysisResult, label?: string) => void;
   initialState?: { input: string, result: AnalysisResult };
 }
 
@@ -84,12 +42,29 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
 
   const [loading, setLoading] = useState(false);
   const [result, setResult] = useState<AnalysisResult | null>(null);
+  const [error, setError] = useState<unknown>(null);
+  // Part of the recording the result was analyzed from; word timestamps are relative to its start. Null means all of it
+  const [analyzedRange, setAnalyzedRange] = useState<{start: number, end: number} | null>(null);
+  const [options, setOptions] = useState<AnalysisOptions>({});
+  const { provider } = useSentimentProvider();
+
+  // Labelled regions analyzed one clip each
+  const [regions, setRegions] = useState<AudioRegion[]>([]);
+  const [regionResults, setRegionResults] = useState<RegionResult[] | null>(null);
+  const [regionError, setRegionError] = useState<unknown>(null);
+  const [analyzingRegions, setAnalyzingRegions] = useState(false);
   
   const mediaRecorderRef = useRef<MediaRecorder | null>(null);
   const chunksRef = useRef<Blob[]>([]);
   const previewSourceRef = useRef<AudioBufferSourceNode | null>(null);
   const audioContextRef = useRef<AudioContext | null>(null);
   const startTimeRef = useRef<number>(0); // Context time when playback started
+  const pendingPlayRef = useRef<number | null>(null); // Offset to start playback at once the next trim range is applied
+
+  // Live mode analyzes rolling chunks while recording
+  const [liveMode, setLiveMode] = useState(false);
+  const [chunkSeconds, setChunkSeconds] = useState(DEFAULT_CHUNK_SECONDS);
+  const live = useLiveAnalysis(provider, options, audioContextRef);
 
   useEffect(() => {
     // Initialize AudioContext on mount (or lazily)
@@ -113,6 +88,8 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
     if (initialState) {
       setAudioUrl(initialState.input);
       setResult(initialState.result);
+      // History keeps the analyzed clip itself
+      setAnalyzedRange(null);
     }
   }, [initialState]);
 
@@ -127,6 +104,9 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
         const decoded = await audioContextRef.current!.decodeAudioData(arrayBuffer);
         setAudioBuffer(decoded);
         setTrimRange({ start: 0, end: decoded.duration });
+        setRegions([]);
+        setRegionResults(null);
+        setRegionError(null);
         resetPlaybackState();
       } catch (e) {
         console.error("Error decoding audio", e);
@@ -135,8 +115,14 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
     loadAudio();
   }, [audioUrl]);
 
-  // Reset playback if trim range changes significantly (dragging slider)
+  // Reset playback if trim range changes (dragging a waveform handle), unless the change was to play a region
   useEffect(() => {
+    if (pendingPlayRef.current !== null) {
+      const offset = pendingPlayRef.current;
+      pendingPlayRef.current = null;
+      startPlayback(offset);
+      return;
+    }
     if (playbackState !== 'stopped') {
        handleStop();
     }
@@ -203,6 +189,11 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
       };
 
       mediaRecorderRef.current.start();
+      if (liveMode && provider.supportsAudio) {
+        live.start(stream, chunkSeconds);
+      } else {
+        live.reset();
+      }
       setIsRecording(true);
       setResult(null);
     } catch (err) {
@@ -213,6 +204,7 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
 
   const stopRecording = () => {
     if (mediaRecorderRef.current && isRecording) {
+      live.stop();
       mediaRecorderRef.current.stop();
       setIsRecording(false);
       mediaRecorderRef.current.stream.getTracks().forEach(track => track.stop());
@@ -225,6 +217,7 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
       const url = URL.createObjectURL(file);
       setAudioUrl(url);
       setResult(null);
+      live.reset();
     }
   };
 
@@ -232,8 +225,13 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
     setAudioUrl(null);
     setAudioBuffer(null);
     setResult(null);
+    setError(null);
     setTrimRange({ start: 0, end: 0 });
+    setRegions([]);
+    setRegionResults(null);
+    setRegionError(null);
     chunksRef.current = [];
+    live.reset();
     resetPlaybackState();
   };
 
@@ -322,8 +320,12 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
     const percentage = Math.min(Math.max(0, x / width), 1);
     
     const duration = trimRange.end - trimRange.start;
-    const newOffset = percentage * duration;
-    
+    seekTo(percentage * duration);
+  };
+
+  // Moves playback to `offset` seconds into the trimmed segment
+  const seekTo = (offset: number) => {
+    const newOffset = Math.min(Math.max(0, offset), trimRange.end - trimRange.start);
     setCurrentProgress(newOffset);
     
     if (playbackState === 'playing') {
@@ -333,47 +335,98 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
     }
   };
 
+  // Selects a range and plays it, from its start unless an offset into it is given
+  const playRange = (start: number, end: number, offset = 0) => {
+    if (start === trimRange.start && end === trimRange.end) {
+      startPlayback(offset);
+      return;
+    }
+    pendingPlayRef.current = offset;
+    setTrimRange({ start, end });
+  };
+
+  // Plays from a word of the analyzed clip, going back to the analyzed range if the selection has moved off it
+  const playFromWord = (time: number) => {
+    if (!audioBuffer) return;
+    const range = analyzedRange ?? { start: 0, end: audioBuffer.duration };
+    const absolute = range.start + time;
+    if (absolute >= trimRange.start && absolute < trimRange.end) {
+      startPlayback(absolute - trimRange.start);
+    } else {
+      playRange(range.start, range.end, time);
+    }
+  };
+
+  // --- Regions ---
+
+  const addRegion = () => {
+    setRegions(prev => sortRegions([...prev, createRegion(prev, trimRange.start, trimRange.end)]));
+  };
+
+  const updateRegion = (id: string, patch: Partial<AudioRegion>) => {
+    setRegions(prev => prev.map(r => r.id === id ? { ...r, ...patch } : r));
+  };
+
+  const removeRegion = (id: string) => {
+    setRegions(prev => prev.filter(r => r.id !== id));
+  };
+
   // --- Analysis ---
 
-  const blobToBase64 = (blob: Blob): Promise<string> => {
-    return new Promise((resolve, reject) => {
-      const reader = new FileReader();
-      reader.onloadend = () => {
-        const base64String = (reader.result as string).split(',')[1];
-        resolve(base64String);
-      };
-      reader.onerror = reject;
-      reader.readAsDataURL(blob);
-    });
+  const analyzeRange = async (buffer: AudioBuffer, start: number, end: number, signal?: AbortSignal) => {
+    // 1. Slice and Encode
+    const wavBlob = audioBufferToWav(buffer, start, end);
+    
+    // 2. Convert to Base64
+    const base64 = await blobToBase64(wavBlob);
+    
+    // 3. Analyze
+    const data = await provider.analyzeAudio(base64, 'audio/wav', { ...options, signal });
+    return { wavBlob, data };
   };
 
   const handleAnalyze = async () => {
-    if (!audioBuffer) return;
+    if (!audioBuffer || !provider.supportsAudio) return;
     setLoading(true);
+    setError(null);
     // Ensure playback is stopped before analyzing
     handleStop();
 
     try {
-      // 1. Slice and Encode
-      const wavBlob = audioBufferToWav(audioBuffer, trimRange.start, trimRange.end);
-      
-      // 2. Convert to Base64
-      const base64 = await blobToBase64(wavBlob);
-      
-      // 3. Analyze
-      const data = await analyzeAudio(base64, 'audio/wav');
+      const { wavBlob, data } = await analyzeRange(audioBuffer, trimRange.start, trimRange.end);
       setResult(data);
-      if (audioUrl) {
-          onAnalyzeComplete(audioUrl, data);
-      }
+      setAnalyzedRange({ ...trimRange });
+      onAnalyzeComplete(wavBlob, data);
     } catch (error) {
       console.error(error);
-      alert("Failed to analyze audio.");
+      setResult(null);
+      setError(error);
     } finally {
       setLoading(false);
     }
   };
 
+  const handleAnalyzeRegions = async () => {
+    if (!audioBuffer || regions.length === 0 || !provider.supportsAudio) return;
+    const targets = sortRegions(regions);
+    setAnalyzingRegions(true);
+    setRegionError(null);
+    handleStop();
+
+    try {
+      // Every region goes through the provider's queue together; one failure fails the run
+      const analyzed = await Promise.all(targets.map(region => analyzeRange(audioBuffer, region.start, region.end)));
+      setRegionResults(targets.map((region, i) => ({ region, result: analyzed[i].data })));
+      analyzed.forEach(({ wavBlob, data }, i) => onAnalyzeComplete(wavBlob, data, targets[i].label));
+    } catch (error) {
+      console.error(error);
+      setRegionResults(null);
+      setRegionError(error);
+    } finally {
+      setAnalyzingRegions(false);
+    }
+  };
+
   const getSentimentColor = (sentiment: SentimentType) => {
     switch (sentiment) {
       case SentimentType.POSITIVE: return 'text-green-400 border-green-500/50 bg-green-500/10';
@@ -397,6 +450,13 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
           Voice Analysis
         </h2>
 
+        {!provider.supportsAudio && (
+          <div className="mb-6 flex items-center gap-2 p-3 rounded-xl bg-orange-500/10 border border-orange-500/30 text-orange-300 text-sm">
+            <AlertCircle className="w-4 h-4 shrink-0" />
+            {provider.label} analyzes text only. Choose a provider that supports audio to analyze recordings.
+          </div>
+        )}
+
         <div className="flex flex-col items-center justify-center p-8 border-2 border-dashed border-white/10 rounded-2xl bg-darker/50 gap-6">
           
           {!audioUrl ? (
@@ -408,6 +468,29 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
                <p className="text-gray-400 font-medium">
                  {isRecording ? 'Recording... Tap to stop' : 'Tap microphone to record'}
                </p>
+               <div className="flex items-center justify-center gap-2 text-sm text-gray-400">
+                 <label className={`flex items-center gap-2 ${isRecording || !provider.supportsAudio ? 'opacity-50' : 'cursor-pointer'}`}>
+                   <input
+                     type="checkbox"
+                     checked={liveMode && provider.supportsAudio}
+                     onChange={(e) => setLiveMode(e.target.checked)}
+                     disabled={isRecording || !provider.supportsAudio}
+                     className="accent-secondary"
+                   />
+                   Live analysis while recording
+                 </label>
+                 {liveMode && provider.supportsAudio && (
+                   <select
+                     value={chunkSeconds}
+                     onChange={(e) => setChunkSeconds(Number(e.target.value))}
+                     disabled={isRecording}
+                     className="bg-darker border border-white/10 rounded-lg px-2 py-1 text-xs text-gray-200 outline-none focus:border-secondary"
+                     aria-label="Chunk length"
+                   >
+                     {CHUNK_LENGTHS.map(s => <option key={s} value={s}>every {s}s</option>)}
+                   </select>
+                 )}
+               </div>
                <div className="flex items-center gap-2 text-sm text-gray-500 my-2">
                  <span className="h-px bg-white/10 flex-1"></span>
                  <span>OR</span>
@@ -442,56 +525,25 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
                     </span>
                   </div>
 
-                  <div className="space-y-4 pt-2">
-                    <div className="relative h-12 bg-black/40 rounded-lg overflow-hidden flex items-center px-2">
-                      {/* Simple Timeline Visual */}
-                      <div className="absolute inset-0 flex items-center justify-center opacity-20">
-                         <div className="w-full h-0.5 bg-gray-500"></div>
-                      </div>
-                      {/* Selected Region Visual */}
-                      <div 
-                        className="absolute top-0 bottom-0 bg-secondary/20 border-x border-secondary/50 pointer-events-none"
-                        style={{
-                          left: `${(trimRange.start / audioBuffer.duration) * 100}%`,
-                          right: `${100 - (trimRange.end / audioBuffer.duration) * 100}%`
-                        }}
-                      ></div>
-                    </div>
+                  <WaveformTrimmer
+                    buffer={audioBuffer}
+                    trimRange={trimRange}
+                    onTrimChange={setTrimRange}
+                    playhead={trimRange.start + currentProgress}
+                    onSeek={time => seekTo(time - trimRange.start)}
+                    regions={regions}
+                  />
+
+                  <RegionList
+                    regions={regions}
+                    onAdd={addRegion}
+                    onChange={updateRegion}
+                    onRemove={removeRegion}
+                    onSelect={region => setTrimRange({ start: region.start, end: region.end })}
+                    onPlay={region => playRange(region.start, region.end)}
+                    disabled={analyzingRegions}
+                  />
 
-                    <div className="grid grid-cols-2 gap-4">
-                      <div>
-                        <label className="text-xs text-gray-400 mb-1 block">Start: {formatTime(trimRange.start)}</label>
-                        <input 
-                          type="range" 
-                          min={0} 
-                          max={audioBuffer.duration} 
-                          step={0.1}
-                          value={trimRange.start}
-                          onChange={(e) => {
-                            const val = Number(e.target.value);
-                            setTrimRange(prev => ({ ...prev, start: Math.min(val, prev.end - 0.5) }));
-                          }}
-                          className="w-full accent-secondary"
-                        />
-                      </div>
-                      <div>
-                        <label className="text-xs text-gray-400 mb-1 block">End: {formatTime(trimRange.end)}</label>
-                        <input 
-                          type="range" 
-                          min={0} 
-                          max={audioBuffer.duration} 
-                          step={0.1}
-                          value={trimRange.end}
-                          onChange={(e) => {
-                            const val = Number(e.target.value);
-                            setTrimRange(prev => ({ ...prev, end: Math.max(val, prev.start + 0.5) }));
-                          }}
-                          className="w-full accent-secondary"
-                        />
-                      </div>
-                    </div>
-                  </div>
-                  
                   {/* Progress Bar for Segment Playback - ENHANCED with scrubbing */}
                   <div className="mt-4 px-1 pt-2 border-t border-white/5">
                       <div className="flex justify-between text-xs text-gray-400 font-mono mb-1">
@@ -544,6 +596,10 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
                 </div>
                )}
 
+               <div className="flex justify-center">
+                 <AnalysisOptionsPicker value={options} onChange={setOptions} disabled={loading} />
+               </div>
+
                {/* Action Buttons */}
                <div className="flex justify-center gap-3 pt-2">
                  <button 
@@ -553,10 +609,20 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
                    <RotateCcw className="w-4 h-4" />
                    New Recording
                  </button>
+                 {regions.length > 0 && (
+                   <button
+                     onClick={handleAnalyzeRegions}
+                     disabled={loading || analyzingRegions || !provider.supportsAudio}
+                     className="flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-secondary border border-secondary/40 hover:bg-secondary/10 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+                   >
+                     {analyzingRegions ? <Loader2 className="animate-spin w-5 h-5" /> : <Layers className="w-4 h-4" />}
+                     {analyzingRegions ? 'Processing...' : `Analyze ${regions.length} Region${regions.length === 1 ? '' : 's'}`}
+                   </button>
+                 )}
                  <button
                     onClick={handleAnalyze}
-                    disabled={loading}
-                    className="flex items-center gap-2 bg-secondary hover:bg-secondary/90 text-white px-6 py-2 rounded-lg font-medium transition-all shadow-lg shadow-secondary/25"
+                    disabled={loading || analyzingRegions || !provider.supportsAudio}
+                    className="flex items-center gap-2 bg-secondary hover:bg-secondary/90 text-white px-6 py-2 rounded-lg font-medium transition-all shadow-lg shadow-secondary/25 disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {loading ? <Loader2 className="animate-spin w-5 h-5" /> : null}
                     {loading ? 'Processing...' : 'Analyze Segment'}
@@ -567,6 +633,32 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
         </div>
       </div>
 
+      {(live.active || live.chunks.length > 0) && (
+        <LiveMonitor chunks={live.chunks} active={live.active} chunkSeconds={chunkSeconds} urgentChunk={live.urgentChunk} />
+      )}
+
+      {audioBuffer && (
+        <AutoSegmenter
+          buffer={audioBuffer}
+          analyze={(start, end, signal) => analyzeRange(audioBuffer, start, end, signal).then(({ data }) => data)}
+          onPlay={playRange}
+          playhead={playbackState === 'stopped' ? null : trimRange.start + currentProgress}
+          disabled={loading || analyzingRegions || !provider.supportsAudio}
+        />
+      )}
+
+      {error && !result && (
+        <AnalysisErrorCard error={error} onRetry={handleAnalyze} retrying={loading} />
+      )}
+
+      {regionError && !regionResults && (
+        <AnalysisErrorCard error={regionError} onRetry={handleAnalyzeRegions} retrying={analyzingRegions} />
+      )}
+
+      {regionResults && (
+        <RegionResults results={regionResults} onPlay={region => playRange(region.start, region.end)} />
+      )}
+
       {result && (
         <div className={`p-6 rounded-2xl border animate-fade-in ${getSentimentColor(result.sentiment)}`}>
           <div className="flex items-start justify-between mb-4">
@@ -575,21 +667,39 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
                     {result.sentiment}
                 </h3>
                 <p className="text-sm opacity-80 mt-1">Tone Confidence: {(result.score * 100).toFixed(1)}%</p>
+                {result.language && <p className="text-sm opacity-80">Language: {languageName(result.language)}</p>}
              </div>
              <div className="text-right">
               <span className="text-xs uppercase tracking-wider opacity-60">Engine</span>
-              <div className="font-mono text-sm">Python (Speech/BERT)</div>
+              <div className="font-mono text-sm">{provider.label}</div>
             </div>
           </div>
           
           <div className="space-y-4">
+            <ReviewBadge result={result} detailed />
+
             {result.transcript && (
-              <div className="bg-black/20 rounded-xl p-4 border border-white/5">
-                <div className="flex items-center gap-2 mb-2 text-secondary/80">
-                  <Quote className="w-4 h-4" />
-                  <h4 className="text-sm font-semibold uppercase tracking-wide">Transcript</h4>
+              <div className={result.translation ? 'grid grid-cols-1 md:grid-cols-2 gap-4' : ''}>
+                <div className="bg-black/20 rounded-xl p-4 border border-white/5">
+                  <div className="flex items-center gap-2 mb-2 text-secondary/80">
+                    <Quote className="w-4 h-4" />
+                    <h4 className="text-sm font-semibold uppercase tracking-wide">Transcript</h4>
+                  </div>
+                  <p className="opacity-90 italic text-gray-200 leading-relaxed font-serif text-lg">
+                    "{result.words && result.words.length > 0 ? (
+                      <TimedTranscript
+                        transcript={result.transcript}
+                        words={result.words}
+                        keywords={result.keywords}
+                        currentTime={playbackState === 'stopped' ? null : trimRange.start + currentProgress - (analyzedRange?.start ?? 0)}
+                        onSeek={playFromWord}
+                      />
+                    ) : (
+                      <HighlightedText text={result.transcript} keywords={result.keywords} />
+                    )}"
+                  </p>
                 </div>
-                <p className="opacity-90 italic text-gray-200 leading-relaxed font-serif text-lg">"{result.transcript}"</p>
+                {result.translation && <TranslationPanel translation={result.translation} language={result.language} />}
               </div>
             )}
 
@@ -597,6 +707,11 @@ export const VoiceAnalyzer: React.FC<VoiceAnalyzerProps> = ({ onAnalyzeComplete,
               <h4 className="text-sm font-semibold mb-2 opacity-90">Audio Profile</h4>
               <p className="opacity-80 leading-relaxed">{result.explanation}</p>
             </div>
+
+            {result.aspects && <AspectBreakdown aspects={result.aspects} />}
+
+            {result.emotions && result.emotions.length > 0 && <EmotionRadar emotions={result.emotions} />}
+
              {result.keywords.length > 0 && (
               <div className="flex flex-wrap gap-2">
                   {result.keywords.map((k, i) => (
@@ -0,0 +1,318 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { ZoomIn, ZoomOut, Maximize2 } from 'lucide-react';
+import { computePeaks } from '../services/audio';
+import { AudioRegion } from '../services/audioRegions';
+
+export interface TrimRange {
+  start: number;
+  end: number;
+}
+
+interface WaveformTrimmerProps {
+  buffer: AudioBuffer;
+  trimRange: TrimRange;
+  onTrimChange: (range: TrimRange) => void;
+  // Playhead position in seconds from the start of the recording
+  playhead: number;
+  onSeek: (time: number) => void;
+  // Shortest selection the handles allow, in seconds
+  minLength?: number;
+  // Saved regions, drawn as labelled bands along the top
+  regions?: AudioRegion[];
+}
+
+type Handle = 'start' | 'end';
+
+const MAX_ZOOM = 64;
+const HEIGHT = 96;
+const SELECTED_COLOR = '#a855f7';
+const UNSELECTED_COLOR = 'rgba(148, 163, 184, 0.35)';
+
+const formatTime = (seconds: number) => {
+  const mins = Math.floor(seconds / 60);
+  const secs = Math.floor(seconds % 60);
+  const ms = Math.floor((seconds % 1) * 10);
+  return `${mins}:${secs.toString().padStart(2, '0')}.${ms}`;
+};
+
+const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+
+/**
+ * Waveform of the decoded recording with draggable start/end handles. Zooming
+ * narrows the visible window, which pans with the mouse wheel, the scrollbar
+ * underneath, or on its own to keep the playhead in view.
+ */
+export const WaveformTrimmer: React.FC<WaveformTrimmerProps> = ({ buffer, trimRange, onTrimChange, playhead, onSeek, minLength = 0.5, regions = [] }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [viewStart, setViewStart] = useState(0);
+  const [dragging, setDragging] = useState<Handle | null>(null);
+
+  const duration = buffer.duration;
+  const viewDuration = duration / zoom;
+  const viewEnd = viewStart + viewDuration;
+
+  // A new recording starts fully zoomed out
+  useEffect(() => {
+    setZoom(1);
+    setViewStart(0);
+  }, [buffer]);
+
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const observer = new ResizeObserver(entries => setWidth(Math.floor(entries[0].contentRect.width)));
+    observer.observe(el);
+    return () => observer.disconnect();
+  }, []);
+
+  const columns = Math.max(1, Math.floor(width));
+  // Only depends on the visible window, so dragging a handle just recolours the same peaks
+  const peaks = useMemo(
+    () => width > 0 ? computePeaks(buffer, viewStart, viewEnd, columns) : null,
+    [buffer, viewStart, viewEnd, columns, width]
+  );
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks) return;
+    const dpr = window.devicePixelRatio || 1;
+    canvas.width = columns * dpr;
+    canvas.height = HEIGHT * dpr;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+    ctx.setTransform(dpr, 0, 0, dpr, 0, 0);
+    ctx.clearRect(0, 0, columns, HEIGHT);
+
+    // Scale so the loudest visible column nearly fills the height
+    let loudest = 0;
+    for (let x = 0; x < columns; x++) loudest = Math.max(loudest, -peaks.min[x], peaks.max[x]);
+    const gain = loudest > 0 ? 0.95 / loudest : 1;
+    const mid = HEIGHT / 2;
+
+    for (let x = 0; x < columns; x++) {
+      const time = viewStart + ((x + 0.5) / columns) * viewDuration;
+      ctx.fillStyle = time >= trimRange.start && time <= trimRange.end ? SELECTED_COLOR : UNSELECTED_COLOR;
+      const top = mid - peaks.max[x] * gain * mid;
+      const bottom = mid - peaks.min[x] * gain * mid;
+      ctx.fillRect(x, top, 1, Math.max(1, bottom - top));
+    }
+  }, [peaks, columns, viewStart, viewDuration, trimRange.start, trimRange.end]);
+
+  const applyZoom = (nextZoom: number, anchor: number) => {
+    const z = clamp(nextZoom, 1, MAX_ZOOM);
+    const nextDuration = duration / z;
+    // Keep the anchor time at the same horizontal position
+    const ratio = viewDuration > 0 ? (anchor - viewStart) / viewDuration : 0.5;
+    setZoom(z);
+    setViewStart(clamp(anchor - ratio * nextDuration, 0, duration - nextDuration));
+  };
+
+  const fitSelection = () => {
+    const length = trimRange.end - trimRange.start;
+    if (length <= 0) return;
+    // Leave a little margin either side of the selection
+    const z = clamp(duration / (length * 1.1), 1, MAX_ZOOM);
+    const nextDuration = duration / z;
+    setZoom(z);
+    setViewStart(clamp(trimRange.start - (nextDuration - length) / 2, 0, duration - nextDuration));
+  };
+
+  // Wheel pans when zoomed in; ctrl/cmd + wheel zooms around the cursor. Registered natively so it can preventDefault.
+  const wheelRef = useRef<(e: WheelEvent) => void>(() => {});
+  wheelRef.current = (e: WheelEvent) => {
+    const el = containerRef.current;
+    if (!el) return;
+    if (e.ctrlKey || e.metaKey) {
+      e.preventDefault();
+      const rect = el.getBoundingClientRect();
+      const anchor = viewStart + ((e.clientX - rect.left) / rect.width) * viewDuration;
+      applyZoom(zoom * (e.deltaY < 0 ? 1.25 : 0.8), anchor);
+    } else if (zoom > 1) {
+      e.preventDefault();
+      const delta = Math.abs(e.deltaX) > Math.abs(e.deltaY) ? e.deltaX : e.deltaY;
+      setViewStart(clamp(viewStart + (delta / el.clientWidth) * viewDuration, 0, duration - viewDuration));
+    }
+  };
+  useEffect(() => {
+    const el = containerRef.current;
+    if (!el) return;
+    const listener = (e: WheelEvent) => wheelRef.current(e);
+    el.addEventListener('wheel', listener, { passive: false });
+    return () => el.removeEventListener('wheel', listener);
+  }, []);
+
+  // Follow the playhead when playback runs off the visible window
+  useEffect(() => {
+    if (zoom === 1 || dragging) return;
+    if (playhead < viewStart || playhead > viewEnd) {
+      setViewStart(clamp(playhead - viewDuration * 0.1, 0, duration - viewDuration));
+    }
+  }, [playhead]);
+
+  const timeAt = (clientX: number) => {
+    const rect = containerRef.current!.getBoundingClientRect();
+    return clamp(viewStart + ((clientX - rect.left) / rect.width) * viewDuration, 0, duration);
+  };
+
+  const moveHandle = (handle: Handle, time: number) => {
+    if (handle === 'start') {
+      onTrimChange({ ...trimRange, start: clamp(time, 0, trimRange.end - minLength) });
+    } else {
+      onTrimChange({ ...trimRange, end: clamp(time, trimRange.start + minLength, duration) });
+    }
+  };
+
+  const handlePointerDown = (handle: Handle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    e.stopPropagation();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    setDragging(handle);
+  };
+
+  const handlePointerMove = (handle: Handle) => (e: React.PointerEvent<HTMLDivElement>) => {
+    if (dragging !== handle) return;
+    moveHandle(handle, timeAt(e.clientX));
+  };
+
+  const handleKeyDown = (handle: Handle) => (e: React.KeyboardEvent<HTMLDivElement>) => {
+    const step = e.shiftKey ? 1 : 0.1;
+    const current = handle === 'start' ? trimRange.start : trimRange.end;
+    if (e.key === 'ArrowLeft') moveHandle(handle, current - step);
+    else if (e.key === 'ArrowRight') moveHandle(handle, current + step);
+    else return;
+    e.preventDefault();
+  };
+
+  // Clicking inside the selection moves the playhead there
+  const handleClick = (e: React.MouseEvent<HTMLDivElement>) => {
+    const time = timeAt(e.clientX);
+    if (time >= trimRange.start && time <= trimRange.end) onSeek(time);
+  };
+
+  const percentOf = (time: number) => ((time - viewStart) / viewDuration) * 100;
+  const inView = (time: number) => time >= viewStart && time <= viewEnd;
+
+  const renderHandle = (handle: Handle) => {
+    const time = handle === 'start' ? trimRange.start : trimRange.end;
+    if (!inView(time)) return null;
+    return (
+      <div
+        role="slider"
+        tabIndex={0}
+        aria-label={handle === 'start' ? 'Trim start' : 'Trim end'}
+        aria-valuemin={0}
+        aria-valuemax={duration}
+        aria-valuenow={time}
+        aria-valuetext={formatTime(time)}
+        title={`${handle === 'start' ? 'Start' : 'End'}: ${formatTime(time)} (drag, or use arrow keys)`}
+        onPointerDown={handlePointerDown(handle)}
+        onPointerMove={handlePointerMove(handle)}
+        onPointerUp={() => setDragging(null)}
+        onPointerCancel={() => setDragging(null)}
+        onClick={e => e.stopPropagation()}
+        onKeyDown={handleKeyDown(handle)}
+        className="absolute top-0 bottom-0 w-3 -ml-1.5 flex justify-center cursor-ew-resize touch-none group focus:outline-none"
+        style={{ left: `${percentOf(time)}%` }}
+      >
+        <div className={`w-0.5 h-full transition-colors ${dragging === handle ? 'bg-white' : 'bg-secondary group-hover:bg-white group-focus:bg-white'}`} />
+        <div className={`absolute ${handle === 'start' ? 'top-0' : 'bottom-0'} w-3 h-3 rounded-sm ${dragging === handle ? 'bg-white' : 'bg-secondary group-hover:bg-white group-focus:bg-white'}`} />
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-xs text-gray-400">
+        <span>
+          Start: <span className="font-mono text-gray-200">{formatTime(trimRange.start)}</span>
+          <span className="mx-2 text-gray-600">|</span>
+          End: <span className="font-mono text-gray-200">{formatTime(trimRange.end)}</span>
+        </span>
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => applyZoom(zoom / 2, viewStart + viewDuration / 2)}
+            disabled={zoom <= 1}
+            className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Zoom out"
+          >
+            <ZoomOut className="w-4 h-4" />
+          </button>
+          <span className="font-mono w-10 text-center">{zoom < 10 ? zoom.toFixed(1) : Math.round(zoom)}x</span>
+          <button
+            onClick={() => applyZoom(zoom * 2, viewStart + viewDuration / 2)}
+            disabled={zoom >= MAX_ZOOM}
+            className="p-1.5 rounded-md hover:bg-white/10 disabled:opacity-30 disabled:cursor-not-allowed"
+            title="Zoom in (or ctrl + scroll)"
+          >
+            <ZoomIn className="w-4 h-4" />
+          </button>
+          <button
+            onClick={fitSelection}
+            className="p-1.5 rounded-md hover:bg-white/10"
+            title="Zoom to selection"
+          >
+            <Maximize2 className="w-4 h-4" />
+          </button>
+        </div>
+      </div>
+
+      <div
+        ref={containerRef}
+        onClick={handleClick}
+        className="relative bg-black/40 rounded-lg overflow-hidden cursor-pointer select-none"
+        style={{ height: HEIGHT }}
+      >
+        <canvas ref={canvasRef} className="absolute inset-0 w-full h-full" />
+        {/* Dim what falls outside the selection */}
+        <div
+          className="absolute top-0 bottom-0 bg-secondary/10 pointer-events-none"
+          style={{
+            left: `${clamp(percentOf(trimRange.start), 0, 100)}%`,
+            right: `${100 - clamp(percentOf(trimRange.end), 0, 100)}%`,
+          }}
+        />
+        {regions.filter(r => r.end >= viewStart && r.start <= viewEnd).map(region => (
+          <div
+            key={region.id}
+            className="absolute top-0 h-4 px-1 border-x text-[10px] leading-4 font-semibold text-white truncate pointer-events-none"
+            style={{
+              left: `${clamp(percentOf(region.start), 0, 100)}%`,
+              right: `${100 - clamp(percentOf(region.end), 0, 100)}%`,
+              backgroundColor: `${region.color}66`,
+              borderColor: region.color,
+            }}
+          >
+            {region.label}
+          </div>
+        ))}
+        {inView(playhead) && (
+          <div
+            className="absolute top-0 bottom-0 w-px bg-white shadow-[0_0_6px_rgba(255,255,255,0.8)] pointer-events-none"
+            style={{ left: `${percentOf(playhead)}%` }}
+          />
+        )}
+        {renderHandle('start')}
+        {renderHandle('end')}
+      </div>
+
+      <div className="flex items-center justify-between gap-3 text-[10px] text-gray-500 font-mono">
+        <span>{formatTime(viewStart)}</span>
+        {zoom > 1 && (
+          <input
+            type="range"
+            min={0}
+            max={duration - viewDuration}
+            step={viewDuration / 100}
+            value={viewStart}
+            onChange={e => setViewStart(Number(e.target.value))}
+            className="flex-1 h-1 accent-secondary"
+            aria-label="Scroll waveform"
+          />
+        )}
+        <span>{formatTime(viewEnd)}</span>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+import { useCallback, useEffect, useState } from 'react';
+import { HistoryItem } from '../types';
+import { ImportStrategy, ImportSummary, mergeHistory, parseArchive } from '../services/historyArchive';
+import {
+  RetentionPolicy,
+  StorageUsage,
+  applyRetention,
+  clearHistory,
+  deleteHistoryItems,
+  getStorageUsage,
+  loadHistory,
+  loadRetentionPolicy,
+  saveHistoryItem,
+  saveHistoryItems,
+  saveRetentionPolicy,
+} from '../services/historyStore';
+
+// Keeps React state in sync with the IndexedDB history store
+export const useHistory = () => {
+  const [history, setHistory] = useState<HistoryItem[]>([]);
+  const [retention, setRetentionState] = useState<RetentionPolicy>(loadRetentionPolicy);
+  const [usage, setUsage] = useState<StorageUsage | null>(null);
+
+  const refreshUsage = useCallback(async () => {
+    try {
+      setUsage(await getStorageUsage());
+    } catch (e) {
+      console.error("Failed to read storage usage", e);
+    }
+  }, []);
+
+  const prune = async (policy: RetentionPolicy) => {
+    const removed = await applyRetention(policy);
+    if (removed.length > 0) {
+      setHistory(prev => prev.filter(item => !removed.includes(item.id)));
+    }
+    return removed;
+  };
+
+  useEffect(() => {
+    const init = async () => {
+      try {
+        await applyRetention(retention);
+        setHistory(await loadHistory());
+      } catch (e) {
+        console.error("Failed to load history", e);
+      }
+      refreshUsage();
+    };
+    init();
+  }, []);
+
+  const addItem = async (item: HistoryItem) => {
+    setHistory(prev => [item, ...prev]);
+    try {
+      await saveHistoryItem(item);
+      await prune(retention);
+    } catch (e) {
+      console.error("Failed to persist history item", e);
+    }
+    refreshUsage();
+  };
+
+  const updateItem = async (id: string, patch: Partial<HistoryItem>) => {
+    const current = history.find(item => item.id === id);
+    if (!current) return;
+    const updated = { ...current, ...patch };
+    setHistory(prev => prev.map(item => (item.id === id ? updated : item)));
+    try {
+      await saveHistoryItem(updated);
+    } catch (e) {
+      console.error("Failed to update history item", e);
+    }
+  };
+
+  const deleteItems = async (ids: string[]) => {
+    setHistory(prev => prev.filter(item => !ids.includes(item.id)));
+    try {
+      await deleteHistoryItems(ids);
+    } catch (e) {
+      console.error("Failed to delete history items", e);
+    }
+    refreshUsage();
+  };
+
+  // Throws if the file is not a readable archive; storage errors are logged like elsewhere
+  const importArchive = async (file: Blob, strategy: ImportStrategy): Promise<ImportSummary> => {
+    const { items: incoming, invalid } = await parseArchive(file);
+    const { items, added, skipped } = mergeHistory(history, incoming, strategy);
+
+    setHistory(items);
+    let expired = 0;
+    try {
+      if (strategy === 'replace') {
+        await clearHistory();
+        await saveHistoryItems(items);
+      } else {
+        await saveHistoryItems(added);
+      }
+      expired = (await prune(retention)).length;
+    } catch (e) {
+      console.error("Failed to persist imported history", e);
+    }
+    refreshUsage();
+    return { added: added.length, skipped, invalid, expired };
+  };
+
+  const setRetention = async (policy: RetentionPolicy) => {
+    setRetentionState(policy);
+    saveRetentionPolicy(policy);
+    try {
+      await prune(policy);
+    } catch (e) {
+      console.error("Failed to apply retention policy", e);
+    }
+    refreshUsage();
+  };
+
+  return { history, addItem, updateItem, deleteItems, importArchive, retention, setRetention, usage };
+};
@@ -0,0 +1,80 @@
+import { RefObject, useEffect, useRef, useState } from 'react';
+import { AnalysisOptions, SentimentProvider } from '../services/sentimentProvider';
+import { audioBufferToWav, blobToBase64 } from '../services/audio';
+import { LiveChunk, RollingRecorder, isUrgentResult, startRollingRecorder } from '../services/liveAnalysis';
+
+// Clips shorter than this (usually the tail cut off by stopping) aren't worth a request
+const MIN_CHUNK_SECONDS = 1;
+
+// Records rolling chunks alongside a recording and analyzes each one as soon as it is cut
+export const useLiveAnalysis = (
+  provider: SentimentProvider,
+  options: AnalysisOptions,
+  audioContextRef: RefObject<AudioContext | null>
+) => {
+  const [chunks, setChunks] = useState<LiveChunk[]>([]);
+  const [active, setActive] = useState(false);
+  // First chunk that called for the emergency panel; stays raised for the rest of the session
+  const [urgentChunk, setUrgentChunk] = useState<LiveChunk | null>(null);
+  const recorderRef = useRef<RollingRecorder | null>(null);
+  // Chunks from a session that has been reset are dropped
+  const sessionRef = useRef(0);
+  // Read when each chunk arrives, so a long session picks up the current settings
+  const settingsRef = useRef({ provider, options });
+  settingsRef.current = { provider, options };
+
+  useEffect(() => () => recorderRef.current?.stop(), []);
+
+  const updateChunk = (index: number, patch: Partial<LiveChunk>) =>
+    setChunks(prev => prev.map(c => c.index === index ? { ...c, ...patch } : c));
+
+  const analyzeChunk = async (blob: Blob) => {
+    const context = audioContextRef.current;
+    if (!context) throw new Error("AudioContext is not supported in this browser.");
+    const decoded = await context.decodeAudioData(await blob.arrayBuffer());
+    const base64 = await blobToBase64(audioBufferToWav(decoded, 0, decoded.duration));
+    const { provider, options } = settingsRef.current;
+    return provider.analyzeAudio(base64, 'audio/wav', options);
+  };
+
+  const start = (stream: MediaStream, chunkSeconds: number) => {
+    recorderRef.current?.stop();
+    const session = ++sessionRef.current;
+    setChunks([]);
+    setUrgentChunk(null);
+
+    recorderRef.current = startRollingRecorder(stream, chunkSeconds, (blob, { index, start, end }) => {
+      if (sessionRef.current !== session || end - start < MIN_CHUNK_SECONDS) return;
+      setChunks(prev => [...prev, { index, start, end, status: 'pending' }]);
+      analyzeChunk(blob)
+        .then(result => {
+          if (sessionRef.current !== session) return;
+          updateChunk(index, { status: 'done', result });
+          if (isUrgentResult(result)) {
+            setUrgentChunk(prev => prev ?? { index, start, end, status: 'done', result });
+          }
+        })
+        .catch(error => {
+          console.error(error);
+          if (sessionRef.current === session) updateChunk(index, { status: 'error' });
+        });
+    });
+    setActive(true);
+  };
+
+  // Stops cutting chunks; the last one is still analyzed
+  const stop = () => {
+    recorderRef.current?.stop();
+    recorderRef.current = null;
+    setActive(false);
+  };
+
+  const reset = () => {
+    stop();
+    sessionRef.current++;
+    setChunks([]);
+    setUrgentChunk(null);
+  };
+
+  return { chunks, active, urgentChunk, start, stop, reset };
+};
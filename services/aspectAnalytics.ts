@@ -0,0 +1,63 @@
+import { DatasetRow, SentimentType } from "../types";
+import { normalizeKeyword } from "./keywordAnalytics";
+
+/**
+ * Dataset-level aggregation of aspect-based results: how often each aspect
+ * is mentioned and with which sentiment. Aspect names are merged with the
+ * same normalization as keywords.
+ */
+
+export interface AspectStat {
+  key: string;
+  // Most frequent surface form, used for display
+  term: string;
+  count: number;
+  bySentiment: Record<SentimentType, number>;
+}
+
+export interface AspectFilter {
+  key: string;
+  sentiment: SentimentType;
+}
+
+const SENTIMENTS = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+
+const emptyCounts = () =>
+  Object.fromEntries(SENTIMENTS.map(s => [s, 0])) as Record<SentimentType, number>;
+
+// Aspects ordered by number of mentions; an aspect repeated within a row counts once per sentiment
+export const analyzeAspects = (rows: DatasetRow[]): AspectStat[] => {
+  const stats = new Map<string, AspectStat & { forms: Map<string, number> }>();
+
+  rows.forEach(row => {
+    const seen = new Set<string>();
+    row.result?.aspects?.forEach(({ aspect, sentiment }) => {
+      const key = normalizeKeyword(aspect);
+      if (!key || seen.has(`${key}\u0000${sentiment}`)) return;
+      seen.add(`${key}\u0000${sentiment}`);
+
+      let stat = stats.get(key);
+      if (!stat) {
+        stat = { key, term: aspect.trim(), count: 0, bySentiment: emptyCounts(), forms: new Map() };
+        stats.set(key, stat);
+      }
+      stat.count++;
+      stat.bySentiment[sentiment]++;
+      const lower = aspect.trim().toLowerCase();
+      stat.forms.set(lower, (stat.forms.get(lower) || 0) + 1);
+    });
+  });
+
+  return [...stats.values()]
+    .map(({ forms, ...stat }) => ({
+      ...stat,
+      term: [...forms.entries()].sort((a, b) => b[1] - a[1])[0][0],
+    }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+};
+
+export const hasAspectResults = (rows: DatasetRow[]) =>
+  rows.some(row => row.result?.aspects && row.result.aspects.length > 0);
+
+export const matchesAspectFilter = (row: DatasetRow, filter: AspectFilter) =>
+  !!row.result?.aspects?.some(a => a.sentiment === filter.sentiment && normalizeKeyword(a.aspect) === filter.key);
@@ -0,0 +1,114 @@
+/**
+ * Helpers for working with decoded audio: WAV encoding of a time range,
+ * base64 conversion for providers and peak extraction for waveform drawing.
+ */
+
+// Encodes the [start, end] seconds of an AudioBuffer as a 16-bit PCM WAV Blob
+export const audioBufferToWav = (buffer: AudioBuffer, start: number, end: number): Blob => {
+  const sampleRate = buffer.sampleRate;
+  const startSample = Math.floor(start * sampleRate);
+  const endSample = Math.floor(end * sampleRate);
+  // Ensure we don't go out of bounds
+  const actualEndSample = Math.min(endSample, buffer.length);
+  const frameCount = actualEndSample - startSample;
+  
+  if (frameCount <= 0) return new Blob([], {type: 'audio/wav'});
+
+  const numChannels = buffer.numberOfChannels;
+  const length = frameCount * numChannels * 2 + 44;
+  
+  const bufferArr = new ArrayBuffer(length);
+  const view = new DataView(bufferArr);
+  const channels = [];
+  let i;
+  let sample;
+  let offset = 0;
+  let pos = 0;
+
+  // write WAVE header
+  const setUint16 = (data: number) => { view.setUint16(pos, data, true); pos += 2; };
+  const setUint32 = (data: number) => { view.setUint32(pos, data, true); pos += 4; };
+
+  setUint32(0x46464952); // "RIFF"
+  setUint32(length - 8); // file length - 8
+  setUint32(0x45564157); // "WAVE"
+
+  setUint32(0x20746d66); // "fmt " chunk
+  setUint32(16); // length = 16
+  setUint16(1); // PCM (uncompressed)
+  setUint16(numChannels);
+  setUint32(sampleRate);
+  setUint32(sampleRate * 2 * numChannels); // avg. bytes/sec
+  setUint16(numChannels * 2); // block-align
+  setUint16(16); // 16-bit
+
+  setUint32(0x61746164); // "data" - chunk
+  setUint32(length - pos - 4); // chunk length
+
+  // Get channel data
+  for(i = 0; i < numChannels; i++)
+    channels.push(buffer.getChannelData(i));
+
+  // Write interleaved data
+  let currentSample = startSample;
+  while(currentSample < actualEndSample) {
+    for(i = 0; i < numChannels; i++) {
+      // Clamp and scale to 16-bit
+      sample = Math.max(-1, Math.min(1, channels[i][currentSample])); 
+      sample = (sample < 0 ? sample * 0x8000 : sample * 0x7FFF) | 0; 
+      view.setInt16(44 + offset, sample, true);
+      offset += 2;
+    }
+    currentSample++;
+  }
+
+  return new Blob([bufferArr], {type: "audio/wav"});
+};
+
+// Base64 payload of a Blob, without the data: URL prefix
+export const blobToBase64 = (blob: Blob): Promise<string> => {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onloadend = () => {
+      const base64String = (reader.result as string).split(',')[1];
+      resolve(base64String);
+    };
+    reader.onerror = reject;
+    reader.readAsDataURL(blob);
+  });
+};
+
+export interface WaveformPeaks {
+  // Per bucket, the lowest and highest sample across all channels (-1..1)
+  min: Float32Array;
+  max: Float32Array;
+}
+
+// Reduces the [start, end] seconds of a buffer to `buckets` min/max pairs, one per drawn column
+export const computePeaks = (buffer: AudioBuffer, start: number, end: number, buckets: number): WaveformPeaks => {
+  const min = new Float32Array(buckets);
+  const max = new Float32Array(buckets);
+  const startSample = Math.max(0, Math.floor(start * buffer.sampleRate));
+  const endSample = Math.min(buffer.length, Math.ceil(end * buffer.sampleRate));
+  const samplesPerBucket = (endSample - startSample) / buckets;
+  if (samplesPerBucket <= 0) return { min, max };
+
+  const channels = Array.from({ length: buffer.numberOfChannels }, (_, i) => buffer.getChannelData(i));
+  for (let b = 0; b < buckets; b++) {
+    const from = startSample + Math.floor(b * samplesPerBucket);
+    // Always read at least one sample so deep zoom levels still draw something
+    const to = Math.max(from + 1, Math.min(endSample, startSample + Math.floor((b + 1) * samplesPerBucket)));
+    let lo = 0;
+    let hi = 0;
+    for (const data of channels) {
+      for (let i = from; i < to && i < data.length; i++) {
+        const v = data[i];
+        if (v < lo) lo = v;
+        if (v > hi) hi = v;
+      }
+    }
+    min[b] = lo;
+    max[b] = hi;
+  }
+  return { min, max };
+};
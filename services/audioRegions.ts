@@ -0,0 +1,92 @@
+import { AnalysisResult, SentimentType } from "../types";
+
+/**
+ * Labelled regions of one recording that are analyzed separately, e.g. the
+ * opening, the complaint and the resolution of a support call, plus the
+ * summary that combines their results.
+ */
+
+export interface AudioRegion {
+  id: string;
+  label: string;
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+  color: string;
+}
+
+export interface RegionResult {
+  // Copy of the region as it was when analyzed, so later edits don't relabel the result
+  region: AudioRegion;
+  result: AnalysisResult;
+}
+
+export interface RegionSummary {
+  // Sentiment covering the most recording time
+  sentiment: SentimentType;
+  // Duration-weighted mean of +score for Positive, -score for Negative, 0 for Neutral
+  avgScore: number;
+  // Seconds of audio per sentiment
+  durationBySentiment: Record<SentimentType, number>;
+  totalDuration: number;
+  // Regions that raised an emergency category
+  emergencies: RegionResult[];
+}
+
+export const MAX_REGIONS = 8;
+
+// Kept clear of the sentiment greens, reds and yellows
+const REGION_COLORS = ['#6366f1', '#22d3ee', '#f472b6', '#fb923c', '#2dd4bf', '#e879f9', '#38bdf8', '#c084fc'];
+
+// The usual shape of a call review, then numbered regions
+const SUGGESTED_LABELS = ['Opening', 'Complaint', 'Resolution'];
+
+const SENTIMENTS = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+
+export const createRegion = (existing: AudioRegion[], start: number, end: number): AudioRegion => {
+  const labels = new Set(existing.map(r => r.label));
+  let label = SUGGESTED_LABELS.find(l => !labels.has(l));
+  for (let n = existing.length + 1; !label; n++) {
+    if (!labels.has(`Region ${n}`)) label = `Region ${n}`;
+  }
+  const used = new Set(existing.map(r => r.color));
+  return {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    label,
+    start,
+    end,
+    color: REGION_COLORS.find(c => !used.has(c)) ?? REGION_COLORS[existing.length % REGION_COLORS.length],
+  };
+};
+
+// Regions in the order they occur in the recording
+export const sortRegions = (regions: AudioRegion[]): AudioRegion[] =>
+  [...regions].sort((a, b) => a.start - b.start);
+
+const signedScore = (result: AnalysisResult) =>
+  result.sentiment === SentimentType.POSITIVE ? result.score
+    : result.sentiment === SentimentType.NEGATIVE ? -result.score
+    : 0;
+
+export const summarizeRegions = (results: RegionResult[]): RegionSummary => {
+  const durationBySentiment = Object.fromEntries(SENTIMENTS.map(s => [s, 0])) as Record<SentimentType, number>;
+  let totalDuration = 0;
+  let weightedScore = 0;
+  results.forEach(({ region, result }) => {
+    const duration = region.end - region.start;
+    durationBySentiment[result.sentiment] += duration;
+    totalDuration += duration;
+    weightedScore += signedScore(result) * duration;
+  });
+
+  // Ties go to the more negative sentiment so problems aren't averaged away
+  const sentiment = [...SENTIMENTS].reverse().reduce((best, s) => durationBySentiment[s] > durationBySentiment[best] ? s : best);
+
+  return {
+    sentiment,
+    avgScore: totalDuration > 0 ? weightedScore / totalDuration : 0,
+    durationBySentiment,
+    totalDuration,
+    emergencies: results.filter(r => r.result.emergencyCategory !== 'None'),
+  };
+};
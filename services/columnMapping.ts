@@ -0,0 +1,117 @@
+import { DatasetMetadata, DatasetRow } from "../types";
+import { ParsedTable } from "./csvParser";
+
+export type ColumnRole = 'text' | 'id' | 'date' | 'author' | 'source' | 'label' | 'metadata' | 'ignore';
+
+export const COLUMN_ROLE_LABELS: Record<ColumnRole, string> = {
+  text: 'Text to analyze',
+  id: 'ID',
+  date: 'Date',
+  author: 'Author',
+  source: 'Source',
+  label: 'True sentiment',
+  metadata: 'Other metadata',
+  ignore: 'Ignore',
+};
+
+// Roles that map onto a named DatasetMetadata field; each may be assigned to one column only
+const SINGLE_ROLES: ColumnRole[] = ['text', 'id', 'date', 'author', 'source', 'label'];
+
+const HEADER_HINTS: Array<[ColumnRole, RegExp]> = [
+  ['text', /^(text|review|comment|message|body|content|feedback|description|tweet|post)s?\b/i],
+  ['id', /^(id|#|ticket|ref)\b|[_ ]id$/i],
+  ['date', /date|time|created|timestamp|submitted/i],
+  ['author', /author|user|customer|name|email|agent/i],
+  ['source', /source|channel|platform|origin|site/i],
+  ['label', /label|sentiment|polarity|gold|truth|class/i],
+];
+
+/**
+ * Suggests a role for every column: header hints first, then the column with
+ * the longest average content becomes the text column if none was matched.
+ */
+export const guessColumnRoles = (table: ParsedTable): ColumnRole[] => {
+  const roles: ColumnRole[] = table.headers.map(() => 'metadata');
+  const taken = new Set<ColumnRole>();
+
+  if (table.hasHeader) {
+    table.headers.forEach((header, col) => {
+      const hint = HEADER_HINTS.find(([role, pattern]) => !taken.has(role) && pattern.test(header.trim()));
+      if (hint) {
+        roles[col] = hint[0];
+        taken.add(hint[0]);
+      }
+    });
+  }
+
+  if (!taken.has('text')) {
+    const sample = table.rows.slice(0, 50);
+    let longest = 0;
+    let textCol = 0;
+    table.headers.forEach((_, col) => {
+      if (roles[col] !== 'metadata') return;
+      const avg = sample.reduce((sum, row) => sum + (row[col]?.length || 0), 0) / Math.max(sample.length, 1);
+      if (avg > longest) {
+        longest = avg;
+        textCol = col;
+      }
+    });
+    roles[textCol] = 'text';
+  }
+
+  return roles;
+};
+
+// Assigning a single-use role to one column releases it from whichever column held it before
+export const assignRole = (roles: ColumnRole[], col: number, role: ColumnRole): ColumnRole[] =>
+  roles.map((current, i) => {
+    if (i === col) return role;
+    if (SINGLE_ROLES.includes(role) && current === role) return role === 'text' ? 'ignore' : 'metadata';
+    return current;
+  });
+
+/**
+ * Returns a function turning one parsed record into a DatasetRow with the
+ * mapped metadata, or null when the text column is empty. Shared by the
+ * preview and the streaming import so both map rows identically.
+ */
+export const createRowMapper = (headers: string[], roles: ColumnRole[]) => {
+  const textCol = roles.indexOf('text');
+
+  return (record: string[], id: number): DatasetRow | null => {
+    const text = textCol < 0 ? '' : (record[textCol] ?? '').trim();
+    if (!text) return null;
+
+    const metadata: DatasetMetadata = {};
+    roles.forEach((role, col) => {
+      const value = (record[col] ?? '').trim();
+      if (!value) return;
+      switch (role) {
+        case 'id': metadata.sourceId = value; break;
+        case 'date': metadata.date = value; break;
+        case 'author': metadata.author = value; break;
+        case 'source': metadata.source = value; break;
+        case 'label': metadata.label = value; break;
+        case 'metadata':
+          metadata.extra = { ...metadata.extra, [headers[col]]: value };
+          break;
+      }
+    });
+
+    return {
+      id,
+      text,
+      ...(Object.keys(metadata).length > 0 ? { metadata } : {}),
+    };
+  };
+};
+
+export const buildDatasetRows = (table: ParsedTable, roles: ColumnRole[]): DatasetRow[] => {
+  const mapRow = createRowMapper(table.headers, roles);
+  const rows: DatasetRow[] = [];
+  table.rows.forEach(record => {
+    const row = mapRow(record, rows.length);
+    if (row) rows.push(row);
+  });
+  return rows;
+};
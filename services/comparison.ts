@@ -0,0 +1,72 @@
+import { AnalysisResult, SentimentType } from "../types";
+import { normalizeKeyword } from "./keywordAnalytics";
+
+/**
+ * Side-by-side comparison of several analyzed texts, e.g. drafts of the same
+ * announcement. The first text is the baseline that deltas are measured
+ * against; keywords are matched with the dataset keyword normalization.
+ */
+
+export interface ComparisonEntry {
+  index: number;
+  label: string;
+  text: string;
+  result: AnalysisResult;
+  // +score for Positive, -score for Negative, 0 for Neutral
+  signedScore: number;
+  // Change in signed score compared to the baseline (first) text
+  delta: number;
+  // 1 = most positive
+  rank: number;
+  // Keywords no other text mentions
+  uniqueKeywords: string[];
+}
+
+export interface Comparison {
+  entries: ComparisonEntry[];
+  // Entries from most to least positive
+  ranking: ComparisonEntry[];
+  // Keywords every text mentions, in the baseline's wording
+  sharedKeywords: string[];
+}
+
+export const MIN_COMPARE_TEXTS = 2;
+export const MAX_COMPARE_TEXTS = 6;
+
+// "Text A", "Text B", ...
+export const compareLabel = (index: number) => `Text ${String.fromCharCode(65 + index)}`;
+
+const signedScore = (result: AnalysisResult) =>
+  result.sentiment === SentimentType.POSITIVE ? result.score
+    : result.sentiment === SentimentType.NEGATIVE ? -result.score
+    : 0;
+
+export const compareResults = (texts: string[], results: AnalysisResult[]): Comparison => {
+  const keySets = results.map(r => new Set(r.keywords.map(normalizeKeyword).filter(Boolean)));
+  const baseline = signedScore(results[0]);
+
+  const entries: ComparisonEntry[] = results.map((result, index) => ({
+    index,
+    label: compareLabel(index),
+    text: texts[index],
+    result,
+    signedScore: signedScore(result),
+    delta: signedScore(result) - baseline,
+    rank: 0,
+    uniqueKeywords: result.keywords.filter(k => {
+      const key = normalizeKeyword(k);
+      return key && keySets.every((set, other) => other === index || !set.has(key));
+    }),
+  }));
+
+  // Ties keep input order so the ranking is stable
+  const ranking = [...entries].sort((a, b) => b.signedScore - a.signedScore || a.index - b.index);
+  ranking.forEach((entry, i) => { entry.rank = i + 1; });
+
+  const sharedKeywords = results[0].keywords.filter(k => {
+    const key = normalizeKeyword(k);
+    return key && keySets.every(set => set.has(key));
+  });
+
+  return { entries, ranking, sharedKeywords };
+};
@@ -0,0 +1,278 @@
+/**
+ * RFC 4180 delimited-text parsing for dataset uploads: encoding and delimiter
+ * detection, quoted fields (with embedded delimiters, quotes and newlines)
+ * and header detection.
+ */
+
+export type Delimiter = ',' | '\t' | ';' | '|';
+
+export interface ParsedTable {
+  headers: string[];
+  rows: string[][];
+  // null when the file has a single column (e.g. one text per line)
+  delimiter: Delimiter | null;
+  encoding: string;
+  hasHeader: boolean;
+}
+
+const CANDIDATE_DELIMITERS: Delimiter[] = [',', '\t', ';', '|'];
+// Portion of the file inspected when guessing the delimiter
+const SNIFF_CHARS = 64 * 1024;
+const SNIFF_RECORDS = 20;
+// Bytes read up front for the preview and mapping step
+const SAMPLE_BYTES = 256 * 1024;
+const CHUNK_BYTES = 1024 * 1024;
+
+export const DELIMITER_LABELS: Record<Delimiter, string> = {
+  ',': 'Comma',
+  '\t': 'Tab',
+  ';': 'Semicolon',
+  '|': 'Pipe',
+};
+
+// --- Encoding ---
+
+// `partial` tolerates a multi-byte character cut off at the end of a sample
+export const decodeBytes = (bytes: Uint8Array, partial = false): { text: string; encoding: string } => {
+  if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) {
+    return { text: new TextDecoder('utf-8').decode(bytes.subarray(3)), encoding: 'utf-8' };
+  }
+  if (bytes[0] === 0xFF && bytes[1] === 0xFE) {
+    return { text: new TextDecoder('utf-16le').decode(bytes.subarray(2)), encoding: 'utf-16le' };
+  }
+  if (bytes[0] === 0xFE && bytes[1] === 0xFF) {
+    return { text: new TextDecoder('utf-16be').decode(bytes.subarray(2)), encoding: 'utf-16be' };
+  }
+  try {
+    return { text: new TextDecoder('utf-8', { fatal: true }).decode(bytes, { stream: partial }), encoding: 'utf-8' };
+  } catch (e) {
+    // Not valid UTF-8: spreadsheet exports on Windows are usually cp1252
+    return { text: new TextDecoder('windows-1252').decode(bytes), encoding: 'windows-1252' };
+  }
+};
+
+// --- Parsing ---
+
+export interface DelimitedParser {
+  // Returns the records completed by this chunk
+  push: (chunk: string) => string[][];
+  // Flushes the final record
+  end: () => string[][];
+}
+
+/**
+ * Incremental RFC 4180 parser: text can be fed in arbitrary chunks, including
+ * ones that split a quoted field or a CRLF pair. Quotes are honoured even
+ * when delimiter is null, so a quoted line spanning several lines stays one
+ * record. Records made only of empty fields are dropped.
+ */
+export const createDelimitedParser = (delimiter: Delimiter | null): DelimitedParser => {
+  let records: string[][] = [];
+  let record: string[] = [];
+  let field = '';
+  let inQuotes = false;
+  // A quote inside a quoted field: either an escaped quote or the closing one
+  let quotePending = false;
+  let skipLineFeed = false;
+
+  const endField = () => {
+    record.push(field);
+    field = '';
+  };
+  const endRecord = () => {
+    endField();
+    if (record.some(f => f.trim() !== '')) records.push(record);
+    record = [];
+  };
+
+  const push = (chunk: string) => {
+    for (let i = 0; i < chunk.length; i++) {
+      const char = chunk[i];
+
+      if (skipLineFeed) {
+        skipLineFeed = false;
+        if (char === '\n') continue;
+      }
+
+      if (quotePending) {
+        quotePending = false;
+        if (char === '"') {
+          field += '"';
+          continue;
+        }
+        inQuotes = false;
+      }
+
+      if (inQuotes) {
+        if (char === '"') {
+          quotePending = true;
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"' && field.trim() === '') {
+        // Opening quote; whitespace before it is not part of the value
+        field = '';
+        inQuotes = true;
+      } else if (delimiter !== null && char === delimiter) {
+        endField();
+      } else if (char === '\r' || char === '\n') {
+        endRecord();
+        skipLineFeed = char === '\r';
+      } else {
+        field += char;
+      }
+    }
+
+    const completed = records;
+    records = [];
+    return completed;
+  };
+
+  const end = () => {
+    if (field !== '' || record.length > 0) endRecord();
+    const completed = records;
+    records = [];
+    return completed;
+  };
+
+  return { push, end };
+};
+
+export const parseDelimited = (text: string, delimiter: Delimiter | null): string[][] => {
+  const parser = createDelimitedParser(delimiter);
+  return [...parser.push(text), ...parser.end()];
+};
+
+/**
+ * Picks the candidate that splits the sample most consistently: the same
+ * field count (above one) on the largest share of records, ties broken by
+ * the higher count. The sample is parsed properly, so quoted delimiters and
+ * embedded newlines don't skew the result.
+ */
+export const detectDelimiter = (text: string): Delimiter | null => {
+  let best: { delimiter: Delimiter; consistency: number; width: number } | null = null;
+
+  for (const delimiter of CANDIDATE_DELIMITERS) {
+    const records = parseDelimited(text.slice(0, SNIFF_CHARS), delimiter);
+    // The last record may be cut off by the sample boundary
+    const sample = records.length > 1 ? records.slice(0, Math.min(records.length - 1, SNIFF_RECORDS)) : records;
+    if (sample.length === 0) continue;
+
+    const frequency = new Map<number, number>();
+    sample.forEach(r => r.length > 1 && frequency.set(r.length, (frequency.get(r.length) || 0) + 1));
+    for (const [width, recordCount] of frequency) {
+      const consistency = recordCount / sample.length;
+      if (!best || consistency > best.consistency || (consistency === best.consistency && width > best.width)) {
+        best = { delimiter, consistency, width };
+      }
+    }
+  }
+
+  // Require most records to agree, otherwise stray commas in prose would split single-column files
+  return best && best.consistency >= 0.6 ? best.delimiter : null;
+};
+
+const isNumeric = (value: string) => value.trim() !== '' && !isNaN(Number(value));
+
+// ISO (2024-01-31) or numeric day/month forms (31/01/2024, 1.31.24), optionally followed by a time
+const DATE_PATTERN = /^(\d{4}[-/.]\d{1,2}[-/.]\d{1,2}|\d{1,2}[-/.]\d{1,2}[-/.]\d{2,4})([ T].*)?$/;
+const isDateLike = (value: string) => DATE_PATTERN.test(value.trim());
+
+/**
+ * Guesses whether the first record is a header. A header row has unique,
+ * non-empty, non-numeric cells, and at least one column whose type or
+ * length profile differs clearly from the data below it.
+ */
+export const detectHeader = (records: string[][]): boolean => {
+  if (records.length < 2) return false;
+  const [first, ...data] = records;
+  const sample = data.slice(0, 50);
+
+  const cells = first.map(c => c.trim());
+  if (cells.some(c => c === '' || isNumeric(c) || isDateLike(c))) return false;
+  if (new Set(cells.map(c => c.toLowerCase())).size !== cells.length) return false;
+
+  // A single-column file only has a header if the first line reads like a label rather than a sentence
+  if (cells.length === 1) {
+    const values = sample.map(row => row[0].trim());
+    const avgLength = values.reduce((sum, v) => sum + v.length, 0) / values.length;
+    return cells[0].length <= 30 && !/[.!?,]/.test(cells[0]) && cells[0].length * 3 < avgLength;
+  }
+
+  return cells.some((cell, col) => {
+    const values = sample.map(row => (row[col] ?? '').trim()).filter(v => v !== '');
+    if (values.length === 0) return false;
+    if (values.every(isNumeric) || values.every(isDateLike)) return true;
+    const avgLength = values.reduce((sum, v) => sum + v.length, 0) / values.length;
+    return cell.length * 2 < avgLength;
+  });
+};
+
+// Builds the table for a given delimiter/header choice; used for the initial guess and for user overrides
+export const buildTable = (text: string, encoding: string, delimiter: Delimiter | null, hasHeader?: boolean): ParsedTable => {
+  const records = parseDelimited(text, delimiter);
+  const header = hasHeader ?? detectHeader(records);
+  const width = records.reduce((max, r) => Math.max(max, r.length), 0);
+
+  const headers = header
+    ? Array.from({ length: width }, (_, i) => records[0][i]?.trim() || `Column ${i + 1}`)
+    : Array.from({ length: width }, (_, i) => `Column ${i + 1}`);
+
+  return {
+    headers,
+    rows: header ? records.slice(1) : records,
+    delimiter,
+    encoding,
+    hasHeader: header,
+  };
+};
+
+/**
+ * Reads and parses only the start of the file, enough to preview it and pick
+ * the delimiter, header and column mapping. `partial` is set when the file
+ * is larger than the sample; the last (possibly cut off) record is dropped.
+ */
+export const parseDelimitedSample = async (file: Blob): Promise<{ table: ParsedTable; text: string; partial: boolean }> => {
+  const partial = file.size > SAMPLE_BYTES;
+  let { text, encoding } = decodeBytes(new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer()), partial);
+  if (partial) {
+    // Cut at the last line break so the preview doesn't end mid-record
+    const lastBreak = Math.max(text.lastIndexOf('\n'), text.lastIndexOf('\r'));
+    if (lastBreak > 0) text = text.slice(0, lastBreak);
+  }
+  const table = buildTable(text, encoding, detectDelimiter(text));
+  return { table, text, partial };
+};
+
+/**
+ * Parses the whole file in CHUNK_BYTES slices so large uploads are never held
+ * in memory as one string. onRecords receives each batch of data records
+ * (the header, if any, is skipped) and may be async to apply backpressure.
+ */
+export const streamDelimitedFile = async (
+  file: Blob,
+  options: { delimiter: Delimiter | null; encoding: string; hasHeader: boolean },
+  onRecords: (records: string[][], bytesRead: number) => void | Promise<void>
+): Promise<void> => {
+  const decoder = new TextDecoder(options.encoding);
+  const parser = createDelimitedParser(options.delimiter);
+  let skipHeader = options.hasHeader;
+
+  const emit = async (records: string[][], bytesRead: number) => {
+    if (skipHeader && records.length > 0) {
+      records = records.slice(1);
+      skipHeader = false;
+    }
+    if (records.length > 0) await onRecords(records, bytesRead);
+  };
+
+  for (let offset = 0; offset < file.size; offset += CHUNK_BYTES) {
+    const bytes = new Uint8Array(await file.slice(offset, offset + CHUNK_BYTES).arrayBuffer());
+    const bytesRead = Math.min(offset + CHUNK_BYTES, file.size);
+    await emit(parser.push(decoder.decode(bytes, { stream: true })), bytesRead);
+  }
+  await emit([...parser.push(decoder.decode()), ...parser.end()], file.size);
+};
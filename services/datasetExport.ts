@@ -0,0 +1,255 @@
+import { DatasetRow } from "../types";
+import { describeReviewFlags, getReviewFlags } from "./review";
+
+/**
+ * Dataset exports for downstream tools. Every format writes the same flat,
+ * typed records (raw numeric scores, all AnalysisResult fields and the mapped
+ * metadata columns), restricted to the columns the user selected.
+ */
+
+export type ExportFormat = 'csv' | 'json' | 'jsonl' | 'xlsx';
+
+type CellValue = string | number | string[] | null;
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  value: (row: DatasetRow) => CellValue;
+}
+
+export const EXPORT_FORMATS: Record<ExportFormat, { label: string; extension: string; mimeType: string }> = {
+  csv: { label: 'CSV', extension: 'csv', mimeType: 'text/csv;charset=utf-8' },
+  json: { label: 'JSON', extension: 'json', mimeType: 'application/json' },
+  jsonl: { label: 'JSON Lines', extension: 'jsonl', mimeType: 'application/x-ndjson' },
+  xlsx: { label: 'Excel (XLSX)', extension: 'xlsx', mimeType: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' },
+};
+
+/**
+ * Every column that can be exported for these rows. Metadata columns are only
+ * offered when at least one row has a value for them.
+ */
+export const getExportColumns = (rows: DatasetRow[]): ExportColumn[] => {
+  const columns: ExportColumn[] = [
+    { key: 'row', label: 'row', value: row => row.id + 1 },
+    { key: 'text', label: 'text', value: row => row.text },
+    { key: 'sentiment', label: 'sentiment', value: row => row.result?.sentiment ?? null },
+    { key: 'score', label: 'score', value: row => row.result?.score ?? null },
+    { key: 'emergencyCategory', label: 'emergency_category', value: row => row.result?.emergencyCategory ?? null },
+    { key: 'keywords', label: 'keywords', value: row => row.result?.keywords ?? null },
+    { key: 'explanation', label: 'explanation', value: row => row.result?.explanation ?? null },
+    {
+      key: 'review',
+      label: 'review_reasons',
+      value: row => row.result ? describeReviewFlags(getReviewFlags(row.result)) : null,
+    },
+    { key: 'sarcasm', label: 'sarcasm', value: row => row.result?.signals?.sarcasm ?? null },
+    { key: 'mixed', label: 'mixed_sentiment', value: row => row.result?.signals?.mixed ?? null },
+  ];
+
+  if (rows.some(row => row.result?.language)) {
+    columns.push({ key: 'language', label: 'language', value: row => row.result?.language ?? null });
+  }
+  if (rows.some(row => row.result?.translation)) {
+    columns.push({ key: 'translation', label: 'translation_en', value: row => row.result?.translation ?? null });
+  }
+
+  if (rows.some(row => row.result?.aspects)) {
+    columns.push({
+      key: 'aspects',
+      label: 'aspects',
+      value: row => row.result?.aspects?.map(a => `${a.aspect}: ${a.sentiment} (${a.score})`) ?? null,
+    });
+  }
+
+  // One numeric column per emotion, so the distribution can be analyzed downstream
+  const emotionNames = new Set<string>();
+  rows.forEach(row => row.result?.emotions?.forEach(e => emotionNames.add(e.emotion)));
+  emotionNames.forEach(emotion => {
+    columns.push({
+      key: `emotion:${emotion}`,
+      label: `emotion_${emotion}`,
+      value: row => row.result?.emotions?.find(e => e.emotion === emotion)?.probability ?? null,
+    });
+  });
+
+  const metadataFields: Array<[keyof Omit<NonNullable<DatasetRow['metadata']>, 'extra'>, string]> = [
+    ['sourceId', 'source_id'],
+    ['date', 'date'],
+    ['author', 'author'],
+    ['source', 'source'],
+    ['label', 'label'],
+  ];
+  metadataFields.forEach(([field, label]) => {
+    if (rows.some(row => row.metadata?.[field])) {
+      columns.push({ key: `meta:${field}`, label, value: row => row.metadata?.[field] ?? null });
+    }
+  });
+
+  const extraKeys = new Set<string>();
+  rows.forEach(row => Object.keys(row.metadata?.extra || {}).forEach(key => extraKeys.add(key)));
+  // Headers from the file can repeat a built-in column name; those get a prefix so no value is overwritten
+  const labels = new Set(columns.map(c => c.label));
+  extraKeys.forEach(key => {
+    let label = labels.has(key) ? `meta_${key}` : key;
+    for (let n = 2; labels.has(label); n++) label = `meta_${key}_${n}`;
+    labels.add(label);
+    columns.push({ key: `extra:${key}`, label, value: row => row.metadata?.extra?.[key] ?? null });
+  });
+
+  return columns;
+};
+
+// --- CSV ---
+
+const csvCell = (value: CellValue): string => {
+  if (value === null) return '';
+  const text = Array.isArray(value) ? value.join('; ') : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+const toCsv = (rows: DatasetRow[], columns: ExportColumn[]): string => {
+  const lines = [columns.map(c => csvCell(c.label)).join(',')];
+  rows.forEach(row => lines.push(columns.map(c => csvCell(c.value(row))).join(',')));
+  // BOM so Excel opens non-ASCII text as UTF-8
+  return '\uFEFF' + lines.join('\r\n') + '\r\n';
+};
+
+// --- JSON ---
+
+const toRecord = (row: DatasetRow, columns: ExportColumn[]) =>
+  Object.fromEntries(columns.map(c => [c.label, c.value(row)]));
+
+// --- XLSX ---
+
+const escapeXml = (text: string) => text
+  // Control characters are not allowed in XML 1.0
+  .replace(/[\u0000-\u0008\u000B\u000C\u000E-\u001F]/g, '')
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;');
+
+const columnName = (index: number) => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const xlsxCell = (value: CellValue, ref: string) => {
+  if (value === null) return '';
+  if (typeof value === 'number') return `<c r="${ref}"><v>${value}</v></c>`;
+  const text = Array.isArray(value) ? value.join('; ') : value;
+  return `<c r="${ref}" t="inlineStr"><is><t xml:space="preserve">${escapeXml(text)}</t></is></c>`;
+};
+
+const toSheetXml = (rows: DatasetRow[], columns: ExportColumn[]) => {
+  const sheetRows = [columns.map(c => c.label), ...rows.map(row => columns.map(c => c.value(row)))]
+    .map((values, r) =>
+      `<row r="${r + 1}">${values.map((value, c) => xlsxCell(value, `${columnName(c)}${r + 1}`)).join('')}</row>`
+    );
+  return '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main">' +
+    '<sheetViews><sheetView workbookViewId="0"><pane ySplit="1" topLeftCell="A2" activePane="bottomLeft" state="frozen"/></sheetView></sheetViews>' +
+    `<sheetData>${sheetRows.join('')}</sheetData></worksheet>`;
+};
+
+const XLSX_PARTS: Record<string, string> = {
+  '[Content_Types].xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">' +
+    '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+    '<Default Extension="xml" ContentType="application/xml"/>' +
+    '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+    '<Override PartName="/xl/worksheets/sheet1.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>' +
+    '</Types>',
+  '_rels/.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="xl/workbook.xml"/>' +
+    '</Relationships>',
+  'xl/workbook.xml': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<workbook xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships">' +
+    '<sheets><sheet name="Results" sheetId="1" r:id="rId1"/></sheets></workbook>',
+  'xl/_rels/workbook.xml.rels': '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>' +
+    '<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">' +
+    '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet" Target="worksheets/sheet1.xml"/>' +
+    '</Relationships>',
+};
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xEDB88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+const crc32 = (bytes: Uint8Array) => {
+  let crc = 0xFFFFFFFF;
+  for (let i = 0; i < bytes.length; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xFF] ^ (crc >>> 8);
+  return (crc ^ 0xFFFFFFFF) >>> 0;
+};
+
+// Minimal ZIP writer (stored, no compression), which is all an XLSX package needs
+const createZip = (files: Record<string, string>): Blob => {
+  const encoder = new TextEncoder();
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  Object.entries(files).forEach(([name, content]) => {
+    const nameBytes = encoder.encode(name);
+    const data = encoder.encode(content);
+    const crc = crc32(data);
+
+    const local = new DataView(new ArrayBuffer(30));
+    local.setUint32(0, 0x04034B50, true);
+    local.setUint16(4, 20, true);
+    local.setUint16(6, 0x0800, true); // UTF-8 file names
+    local.setUint32(14, crc, true);
+    local.setUint32(18, data.length, true);
+    local.setUint32(22, data.length, true);
+    local.setUint16(26, nameBytes.length, true);
+
+    const entry = new DataView(new ArrayBuffer(46));
+    entry.setUint32(0, 0x02014B50, true);
+    entry.setUint16(4, 20, true);
+    entry.setUint16(6, 20, true);
+    entry.setUint16(8, 0x0800, true);
+    entry.setUint32(16, crc, true);
+    entry.setUint32(20, data.length, true);
+    entry.setUint32(24, data.length, true);
+    entry.setUint16(28, nameBytes.length, true);
+    entry.setUint32(42, offset, true);
+
+    parts.push(new Uint8Array(local.buffer), nameBytes, data);
+    central.push(new Uint8Array(entry.buffer), nameBytes);
+    offset += 30 + nameBytes.length + data.length;
+  });
+
+  const centralSize = central.reduce((sum, part) => sum + part.length, 0);
+  const end = new DataView(new ArrayBuffer(22));
+  end.setUint32(0, 0x06054B50, true);
+  end.setUint16(8, Object.keys(files).length, true);
+  end.setUint16(10, Object.keys(files).length, true);
+  end.setUint32(12, centralSize, true);
+  end.setUint32(16, offset, true);
+
+  return new Blob([...parts, ...central, new Uint8Array(end.buffer)], { type: EXPORT_FORMATS.xlsx.mimeType });
+};
+
+export const exportDataset = (rows: DatasetRow[], columns: ExportColumn[], format: ExportFormat): Blob => {
+  const { mimeType } = EXPORT_FORMATS[format];
+  switch (format) {
+    case 'csv':
+      return new Blob([toCsv(rows, columns)], { type: mimeType });
+    case 'json':
+      return new Blob([JSON.stringify(rows.map(row => toRecord(row, columns)), null, 2)], { type: mimeType });
+    case 'jsonl':
+      return new Blob([rows.map(row => JSON.stringify(toRecord(row, columns)) + '\n').join('')], { type: mimeType });
+    case 'xlsx':
+      return createZip({ ...XLSX_PARTS, 'xl/worksheets/sheet1.xml': toSheetXml(rows, columns) });
+  }
+};
@@ -0,0 +1,97 @@
+import { DatasetRow } from "../types";
+import { AnalysisOptions } from "./sentimentProvider";
+import { DATASET_JOBS_STORE, DATASET_ROWS_STORE, openDb, promisify, transactionDone } from "./db";
+
+/**
+ * Checkpoints for long dataset runs. The imported rows and every result are
+ * written to IndexedDB as the run progresses, so a reload or crash can pick
+ * the job up again without the original file. Only one job is kept at a time.
+ */
+
+export type DatasetJobStatus = 'ready' | 'running' | 'paused';
+
+export interface DatasetJob {
+  id: string;
+  fileName: string;
+  createdAt: number;
+  updatedAt: number;
+  totalRows: number;
+  completedRows: number;
+  status: DatasetJobStatus;
+  // Options the run was started with, so a resumed run analyzes the remaining rows the same way
+  options?: AnalysisOptions;
+}
+
+type StoredRow = DatasetRow & { jobId: string };
+
+// Covers every row of a job in the [jobId, rowId] key space
+const rowRange = (jobId: string) => IDBKeyRange.bound([jobId, -Infinity], [jobId, Infinity]);
+
+export const saveDatasetJob = async (job: DatasetJob) => {
+  const db = await openDb();
+  await promisify(db.transaction(DATASET_JOBS_STORE, 'readwrite').objectStore(DATASET_JOBS_STORE).put(job));
+};
+
+export const deleteDatasetJob = async (jobId: string) => {
+  const db = await openDb();
+  const tx = db.transaction([DATASET_JOBS_STORE, DATASET_ROWS_STORE], 'readwrite');
+  tx.objectStore(DATASET_JOBS_STORE).delete(jobId);
+  tx.objectStore(DATASET_ROWS_STORE).delete(rowRange(jobId));
+  await transactionDone(tx);
+};
+
+// Starts a new job, discarding any previous checkpoint
+export const createDatasetJob = async (fileName: string): Promise<DatasetJob> => {
+  const db = await openDb();
+  const tx = db.transaction([DATASET_JOBS_STORE, DATASET_ROWS_STORE], 'readwrite');
+  tx.objectStore(DATASET_JOBS_STORE).clear();
+  tx.objectStore(DATASET_ROWS_STORE).clear();
+
+  const now = Date.now();
+  const job: DatasetJob = {
+    id: now.toString(),
+    fileName,
+    createdAt: now,
+    updatedAt: now,
+    totalRows: 0,
+    completedRows: 0,
+    status: 'ready',
+  };
+  tx.objectStore(DATASET_JOBS_STORE).put(job);
+  await transactionDone(tx);
+  return job;
+};
+
+export const appendJobRows = async (jobId: string, rows: DatasetRow[]) => {
+  const db = await openDb();
+  const tx = db.transaction(DATASET_ROWS_STORE, 'readwrite');
+  const store = tx.objectStore(DATASET_ROWS_STORE);
+  rows.forEach(row => store.put({ ...row, jobId } as StoredRow));
+  await transactionDone(tx);
+};
+
+// Persists updated rows and the job's progress atomically
+export const checkpointDatasetJob = async (job: DatasetJob, rows: DatasetRow[]) => {
+  const db = await openDb();
+  const tx = db.transaction([DATASET_JOBS_STORE, DATASET_ROWS_STORE], 'readwrite');
+  const rowStore = tx.objectStore(DATASET_ROWS_STORE);
+  rows.forEach(row => rowStore.put({ ...row, jobId: job.id } as StoredRow));
+  tx.objectStore(DATASET_JOBS_STORE).put({ ...job, updatedAt: Date.now() });
+  await transactionDone(tx);
+};
+
+// The most recent unfinished job with its rows in upload order, if any
+export const loadResumableJob = async (): Promise<{ job: DatasetJob; rows: DatasetRow[] } | null> => {
+  const db = await openDb();
+  const jobs = await promisify<DatasetJob[]>(
+    db.transaction(DATASET_JOBS_STORE, 'readonly').objectStore(DATASET_JOBS_STORE).getAll()
+  );
+  const job = jobs.sort((a, b) => b.updatedAt - a.updatedAt)[0];
+  if (!job || job.totalRows === 0) return null;
+
+  const stored = await promisify<StoredRow[]>(
+    db.transaction(DATASET_ROWS_STORE, 'readonly').objectStore(DATASET_ROWS_STORE).getAll(rowRange(job.id))
+  );
+  const rows = stored.map(({ jobId, ...row }) => row);
+  return { job, rows };
+};
@@ -0,0 +1,54 @@
+/**
+ * Shared IndexedDB connection for everything SentiMind persists locally.
+ * Bump DB_VERSION and extend onupgradeneeded when adding an object store.
+ */
+
+const DB_NAME = 'sentimind';
+const DB_VERSION = 2;
+
+export const HISTORY_STORE = 'history';
+export const DATASET_JOBS_STORE = 'datasetJobs';
+export const DATASET_ROWS_STORE = 'datasetRows';
+
+// Wraps an IDBRequest in a Promise
+export const promisify = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+// Resolves once every request in the transaction has been committed
+export const transactionDone = (tx: IDBTransaction): Promise<void> => new Promise((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = () => reject(tx.error);
+  tx.onabort = () => reject(tx.error);
+});
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(HISTORY_STORE)) {
+          const store = db.createObjectStore(HISTORY_STORE, { keyPath: 'id' });
+          store.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(DATASET_JOBS_STORE)) {
+          db.createObjectStore(DATASET_JOBS_STORE, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(DATASET_ROWS_STORE)) {
+          const store = db.createObjectStore(DATASET_ROWS_STORE, { keyPath: ['jobId', 'id'] });
+          store.createIndex('jobId', 'jobId');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
@@ -0,0 +1,57 @@
+import { DatasetRow, EmotionScore, EmotionTaxonomy } from "../types";
+
+/**
+ * Emotion taxonomies offered alongside polarity, and the dataset-level
+ * aggregation of their per-row probability distributions.
+ */
+
+export const EMOTION_TAXONOMIES: Record<EmotionTaxonomy, { label: string; description: string; emotions: string[] }> = {
+  ekman: {
+    label: 'Ekman (6)',
+    description: 'The six basic emotions.',
+    emotions: ['anger', 'disgust', 'fear', 'joy', 'sadness', 'surprise'],
+  },
+  plutchik: {
+    label: 'Plutchik (8)',
+    description: 'The eight primary emotions of Plutchik\'s wheel.',
+    emotions: ['joy', 'trust', 'fear', 'surprise', 'sadness', 'disgust', 'anger', 'anticipation'],
+  },
+  support: {
+    label: 'Support triage',
+    description: 'Emotions that call for different handling in customer support.',
+    emotions: ['anger', 'frustration', 'fear', 'sadness', 'confusion', 'satisfaction', 'gratitude'],
+  },
+};
+
+export interface EmotionSummary {
+  // Mean probability per emotion over the rows that have a distribution
+  average: EmotionScore[];
+  // How many rows have each emotion as their most likely one, most common first
+  dominant: Array<{ emotion: string; count: number }>;
+  rows: number;
+}
+
+export const dominantEmotion = (emotions: EmotionScore[]): EmotionScore | null =>
+  emotions.reduce<EmotionScore | null>((best, e) => !best || e.probability > best.probability ? e : best, null);
+
+export const summarizeEmotions = (rows: DatasetRow[]): EmotionSummary | null => {
+  const totals = new Map<string, number>();
+  const dominantCounts = new Map<string, number>();
+  let count = 0;
+
+  rows.forEach(row => {
+    const emotions = row.result?.emotions;
+    if (!emotions || emotions.length === 0) return;
+    count++;
+    emotions.forEach(e => totals.set(e.emotion, (totals.get(e.emotion) || 0) + e.probability));
+    const top = dominantEmotion(emotions);
+    if (top) dominantCounts.set(top.emotion, (dominantCounts.get(top.emotion) || 0) + 1);
+  });
+  if (count === 0) return null;
+
+  const average = [...totals.entries()].map(([emotion, total]) => ({ emotion, probability: total / count }));
+  const dominant = [...dominantCounts.entries()]
+    .map(([emotion, dominantRows]) => ({ emotion, count: dominantRows }))
+    .sort((a, b) => b.count - a.count);
+  return { average, dominant, rows: count };
+};
@@ -0,0 +1,25 @@
+// Raised by providers when a backend answers with a non-2xx status.
+// The request queue reads `status` to decide whether to retry.
+export class ProviderRequestError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.name = 'ProviderRequestError';
+    this.status = status;
+  }
+}
+
+// Raised when a provider's response does not match the AnalysisResult shape.
+// `field` names the offending property ('(root)' when the payload itself is unusable).
+export class ModelOutputError extends Error {
+  field: string;
+  received: unknown;
+
+  constructor(field: string, message: string, received?: unknown) {
+    super(`Model returned invalid output: ${field} ${message}`);
+    this.name = 'ModelOutputError';
+    this.field = field;
+    this.received = received;
+  }
+}
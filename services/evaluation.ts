@@ -0,0 +1,145 @@
+import { DatasetRow, SentimentType } from "../types";
+
+/**
+ * Scores predictions against a ground-truth label column: confusion matrix,
+ * per-class precision/recall/F1, accuracy and score calibration.
+ */
+
+export const SENTIMENT_CLASSES: SentimentType[] = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+
+export interface ClassMetrics {
+  precision: number;
+  recall: number;
+  f1: number;
+  // Rows whose true label is this class
+  support: number;
+}
+
+export interface CalibrationBin {
+  lower: number;
+  upper: number;
+  count: number;
+  meanScore: number;
+  // Share of rows in the bin that were classified correctly
+  accuracy: number;
+}
+
+export interface EvaluationReport {
+  // Rows with both a recognised label and a prediction
+  evaluated: number;
+  // Rows whose label could not be mapped to a sentiment class
+  unrecognised: number;
+  // Labelled rows whose analysis failed; they have no real prediction to score
+  notEvaluated: number;
+  accuracy: number;
+  macroF1: number;
+  // matrix[actual][predicted]
+  matrix: Record<SentimentType, Record<SentimentType, number>>;
+  perClass: Record<SentimentType, ClassMetrics>;
+  calibration: CalibrationBin[];
+}
+
+// Drill-down selection: one confusion matrix cell, or every misclassified row
+export type EvaluationFilter =
+  | { kind: 'cell'; actual: SentimentType; predicted: SentimentType }
+  | { kind: 'misclassified' };
+
+const CALIBRATION_BINS = 10;
+
+const LABEL_ALIASES: Record<string, SentimentType> = {
+  positive: SentimentType.POSITIVE,
+  pos: SentimentType.POSITIVE,
+  p: SentimentType.POSITIVE,
+  '1': SentimentType.POSITIVE,
+  '+1': SentimentType.POSITIVE,
+  negative: SentimentType.NEGATIVE,
+  neg: SentimentType.NEGATIVE,
+  n: SentimentType.NEGATIVE,
+  '-1': SentimentType.NEGATIVE,
+  neutral: SentimentType.NEUTRAL,
+  neu: SentimentType.NEUTRAL,
+  '0': SentimentType.NEUTRAL,
+};
+
+// Accepts class names in any case, common abbreviations and -1/0/1 encodings
+export const normalizeLabel = (raw: string | undefined): SentimentType | null =>
+  raw ? LABEL_ALIASES[raw.trim().toLowerCase()] ?? null : null;
+
+const emptyCounts = () =>
+  Object.fromEntries(SENTIMENT_CLASSES.map(c => [c, 0])) as Record<SentimentType, number>;
+
+const ratio = (numerator: number, denominator: number) => denominator > 0 ? numerator / denominator : 0;
+
+export const evaluateDataset = (rows: DatasetRow[]): EvaluationReport | null => {
+  const matrix = Object.fromEntries(SENTIMENT_CLASSES.map(c => [c, emptyCounts()])) as EvaluationReport['matrix'];
+  const bins = Array.from({ length: CALIBRATION_BINS }, () => ({ count: 0, scoreSum: 0, correct: 0 }));
+  let evaluated = 0;
+  let correct = 0;
+  let unrecognised = 0;
+  let notEvaluated = 0;
+
+  rows.forEach(row => {
+    if (!row.metadata?.label) return;
+    if (row.failed) {
+      notEvaluated++;
+      return;
+    }
+    if (!row.result) return;
+    const actual = normalizeLabel(row.metadata.label);
+    if (!actual) {
+      unrecognised++;
+      return;
+    }
+    const predicted = row.result.sentiment;
+    const isCorrect = actual === predicted;
+    matrix[actual][predicted]++;
+    evaluated++;
+    if (isCorrect) correct++;
+
+    const bin = bins[Math.min(CALIBRATION_BINS - 1, Math.floor(row.result.score * CALIBRATION_BINS))];
+    bin.count++;
+    bin.scoreSum += row.result.score;
+    if (isCorrect) bin.correct++;
+  });
+
+  if (evaluated === 0) return null;
+
+  const perClass = Object.fromEntries(SENTIMENT_CLASSES.map(c => {
+    const truePositives = matrix[c][c];
+    const predictedCount = SENTIMENT_CLASSES.reduce((sum, actual) => sum + matrix[actual][c], 0);
+    const support = SENTIMENT_CLASSES.reduce((sum, predicted) => sum + matrix[c][predicted], 0);
+    const precision = ratio(truePositives, predictedCount);
+    const recall = ratio(truePositives, support);
+    return [c, { precision, recall, f1: ratio(2 * precision * recall, precision + recall), support }];
+  })) as Record<SentimentType, ClassMetrics>;
+
+  // Classes absent from the labels would drag the macro average down for no reason
+  const present = SENTIMENT_CLASSES.filter(c => perClass[c].support > 0);
+
+  return {
+    evaluated,
+    unrecognised,
+    notEvaluated,
+    accuracy: correct / evaluated,
+    macroF1: ratio(present.reduce((sum, c) => sum + perClass[c].f1, 0), present.length),
+    matrix,
+    perClass,
+    calibration: bins
+      .map((bin, i) => ({
+        lower: i / CALIBRATION_BINS,
+        upper: (i + 1) / CALIBRATION_BINS,
+        count: bin.count,
+        meanScore: ratio(bin.scoreSum, bin.count),
+        accuracy: ratio(bin.correct, bin.count),
+      }))
+      .filter(bin => bin.count > 0),
+  };
+};
+
+export const matchesEvaluationFilter = (row: DatasetRow, filter: EvaluationFilter): boolean => {
+  const actual = normalizeLabel(row.metadata?.label);
+  if (!actual || !row.result || row.failed) return false;
+  return filter.kind === 'misclassified'
+    ? actual !== row.result.sentiment
+    : actual === filter.actual && row.result.sentiment === filter.predicted;
+};
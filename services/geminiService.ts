@@ -1,7 +1,24 @@
 import { GoogleGenAI, Type, Schema } from "@google/genai";
 import { AnalysisResult, SentimentType } from "../types";
+import { AnalysisOptions, SentimentProvider, batchFromText } from "./sentimentProvider";
+import { parseModelJson } from "./validation";
+import { ModelOutputError } from "./errors";
+import { EMOTION_TAXONOMIES } from "./emotions";
+import { languageName } from "./languages";
 
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const isGeminiConfigured = () => Boolean(process.env.API_KEY);
+
+// Created lazily so that selecting another provider works without a Gemini API key
+let client: GoogleGenAI | null = null;
+const getClient = () => {
+  if (!isGeminiConfigured()) {
+    throw new Error("GEMINI_API_KEY is not configured.");
+  }
+  if (!client) {
+    client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  }
+  return client;
+};
 
 const analysisSchema: Schema = {
   type: Type.OBJECT,
@@ -32,33 +49,137 @@ const analysisSchema: Schema = {
       type: Type.STRING,
       enum: ['Health', 'Safety', 'General', 'None'],
       description: "Classify negative sentiment: 'Health' for medical/injuries, 'Safety' for crime/danger/abuse, 'General' for undefined emergencies, 'None' if not urgent."
+    },
+    language: {
+      type: Type.STRING,
+      description: "ISO 639-1 code of the main language of the input, e.g. 'en', 'hi', 'te' or 'es'."
+    },
+    signals: {
+      type: Type.OBJECT,
+      description: "Conditions that make the sentiment label unreliable.",
+      properties: {
+        sarcasm: { type: Type.NUMBER, description: "Probability (0.0 to 1.0) that the input is sarcastic or ironic, meaning the opposite of its literal wording." },
+        mixed: { type: Type.NUMBER, description: "Probability (0.0 to 1.0) that the input holds both clearly positive and clearly negative sentiment." },
+      },
+      required: ["sarcasm", "mixed"],
     }
   },
-  required: ["sentiment", "score", "keywords", "explanation", "transcript", "emergencyCategory"]
+  required: ["sentiment", "score", "keywords", "explanation", "transcript", "emergencyCategory", "language", "signals"]
+};
+
+const aspectsSchema: Schema = {
+  type: Type.ARRAY,
+  description: "Each distinct aspect (product feature, service, person, topic) the input expresses an opinion about.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      aspect: { type: Type.STRING, description: "Short lowercase name of the aspect, e.g. 'delivery' or 'battery life'." },
+      sentiment: { type: Type.STRING, enum: [SentimentType.POSITIVE, SentimentType.NEGATIVE, SentimentType.NEUTRAL] },
+      score: { type: Type.NUMBER, description: "Confidence score between 0.0 and 1.0." },
+      span: { type: Type.STRING, description: "The verbatim excerpt of the input that expresses this opinion." },
+    },
+    required: ["aspect", "sentiment", "score", "span"],
+  },
 };
 
-export const analyzeText = async (text: string): Promise<AnalysisResult> => {
+const emotionsSchema = (emotions: string[]): Schema => ({
+  type: Type.ARRAY,
+  description: "Probability of each emotion being expressed in the input; the probabilities sum to 1.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      emotion: { type: Type.STRING, enum: emotions },
+      probability: { type: Type.NUMBER, description: "Probability between 0.0 and 1.0." },
+    },
+    required: ["emotion", "probability"],
+  },
+});
+
+const wordsSchema: Schema = {
+  type: Type.ARRAY,
+  description: "The transcript split into words or short phrases, in spoken order, with when each is heard.",
+  items: {
+    type: Type.OBJECT,
+    properties: {
+      text: { type: Type.STRING, description: "The word or phrase exactly as written in the transcript." },
+      start: { type: Type.NUMBER, description: "Seconds from the start of the audio when it begins." },
+      end: { type: Type.NUMBER, description: "Seconds from the start of the audio when it ends." },
+    },
+    required: ["text", "start", "end"],
+  },
+};
+
+// Extends the base schema with the optional analyses requested; audio requests also get word timestamps
+const buildSchema = (options: AnalysisOptions = {}, audio = false): Schema => {
+  if (!options.aspects && !options.emotions && !options.translate && !audio) return analysisSchema;
+  const properties = { ...analysisSchema.properties };
+  const required = [...analysisSchema.required!];
+  if (options.aspects) {
+    properties.aspects = aspectsSchema;
+    required.push("aspects");
+  }
+  if (options.emotions) {
+    properties.emotions = emotionsSchema(EMOTION_TAXONOMIES[options.emotions].emotions);
+    required.push("emotions");
+  }
+  if (options.translate) {
+    properties.translation = {
+      type: Type.STRING,
+      description: "Faithful English translation of the transcript; an empty string if it is already English.",
+    };
+    required.push("translation");
+  }
+  if (audio) {
+    properties.words = wordsSchema;
+    required.push("words");
+  }
+  return { ...analysisSchema, properties, required };
+};
+
+// Appended to every prompt. Keywords stay verbatim in any language; only the explanation follows the UI language
+const BASE_INSTRUCTIONS = " The input may be in any language, including Hindi, Telugu, Spanish or a mix with English; detect it into 'language' and keep 'keywords' and 'transcript' in the original language and script." +
+  " If the input is sarcastic or ironic, label the intended sentiment rather than the literal one, and report it in 'signals'.";
+
+const optionInstructions = (options: AnalysisOptions = {}) => {
+  let instructions = BASE_INSTRUCTIONS;
+  if (options.aspects) {
+    instructions += " Also list every aspect the input gives an opinion on in 'aspects', each with its own sentiment.";
+  }
+  if (options.emotions) {
+    instructions += ` Also score every one of these emotions in 'emotions' as a probability distribution: ${EMOTION_TAXONOMIES[options.emotions].emotions.join(', ')}.`;
+  }
+  if (options.translate) {
+    instructions += " Also translate the transcript into English in 'translation'.";
+  }
+  if (options.explanationLanguage) {
+    instructions += ` Write 'explanation' in ${languageName(options.explanationLanguage)}.`;
+  }
+  return instructions;
+};
+
+export const analyzeText = async (text: string, options?: AnalysisOptions): Promise<AnalysisResult> => {
   try {
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: "gemini-2.5-flash",
-      contents: `Analyze the sentiment of the following text: "${text}". Return the input text in the 'transcript' field. If sentiment is Negative, categorize if it requires 'Health' (Ambulance) or 'Safety' (Police) intervention.`,
+      contents: `Analyze the sentiment of the following text: "${text}". Return the input text in the 'transcript' field. If sentiment is Negative, categorize if it requires 'Health' (Ambulance) or 'Safety' (Police) intervention.${optionInstructions(options)}`,
       config: {
         responseMimeType: "application/json",
-        responseSchema: analysisSchema,
+        responseSchema: buildSchema(options),
+        abortSignal: options?.signal,
       },
     });
 
-    const json = JSON.parse(response.text || "{}");
-    return json as AnalysisResult;
+    return parseModelJson(response.text);
   } catch (error) {
+    if (error instanceof ModelOutputError) throw error;
     console.error("Text analysis failed:", error);
-    throw new Error("Failed to analyze text.");
+    throw new Error("Failed to analyze text.", { cause: error });
   }
 };
 
-export const analyzeAudio = async (base64Audio: string, mimeType: string): Promise<AnalysisResult> => {
+export const analyzeAudio = async (base64Audio: string, mimeType: string, options?: AnalysisOptions): Promise<AnalysisResult> => {
   try {
-    const response = await ai.models.generateContent({
+    const response = await getClient().models.generateContent({
       model: "gemini-2.5-flash",
       contents: {
         parts: [
@@ -69,43 +190,33 @@ export const analyzeAudio = async (base64Audio: string, mimeType: string): Promi
             }
           },
           {
-            text: "Transcribe audio to 'transcript'. Analyze sentiment. If Negative, classify emergencyCategory as 'Health' (medical), 'Safety' (crime/danger), or 'General'."
+            text: "Transcribe audio to 'transcript' and list its words with their start and end times in 'words'. Analyze sentiment. If Negative, classify emergencyCategory as 'Health' (medical), 'Safety' (crime/danger), or 'General'." + optionInstructions(options)
           }
         ]
       },
       config: {
         responseMimeType: "application/json",
-        responseSchema: analysisSchema,
+        responseSchema: buildSchema(options, true),
+        abortSignal: options?.signal,
       },
     });
 
-    const json = JSON.parse(response.text || "{}");
-    return json as AnalysisResult;
+    return parseModelJson(response.text);
   } catch (error) {
+    if (error instanceof ModelOutputError) throw error;
     console.error("Audio analysis failed:", error);
-    throw new Error("Failed to analyze audio.");
+    throw new Error("Failed to analyze audio.", { cause: error });
   }
 };
 
-export const analyzeBatch = async (texts: string[]): Promise<AnalysisResult[]> => {
-  // Processing in parallel with a concurrency limit would be better for huge sets,
-  // but for this demo, we'll map all. Note: Rate limits apply.
-  // In a real app, use a queue.
-  const promises = texts.map(async (text) => {
-    try {
-      return await analyzeText(text);
-    } catch (e) {
-      // Fallback for errors in batch
-      return {
-        sentiment: SentimentType.NEUTRAL,
-        score: 0,
-        keywords: [],
-        explanation: "Error processing this row.",
-        transcript: text,
-        emergencyCategory: 'None'
-      } as AnalysisResult;
-    }
-  });
+export const analyzeBatch = batchFromText(analyzeText);
 
-  return Promise.all(promises);
-};
\ No newline at end of file
+export const geminiProvider: SentimentProvider = {
+  id: 'gemini',
+  label: 'Gemini 2.5 Flash',
+  description: 'Google Gemini multimodal model. Supports text and audio.',
+  supportsAudio: true,
+  analyzeText,
+  analyzeAudio,
+  analyzeBatch,
+};
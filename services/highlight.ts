@@ -0,0 +1,23 @@
+/**
+ * Finds keyword occurrences in a text for highlighting. Matching is
+ * case-insensitive and prefers the longest phrase, so "battery life" wins
+ * over "battery" where both are keywords.
+ */
+
+export interface TextRange {
+  start: number;
+  end: number;
+}
+
+// Non-overlapping ranges of every keyword occurrence, in text order
+export const keywordRanges = (text: string, keywords: string[]): TextRange[] => {
+  // Sort keywords by length descending to match longest phrases first
+  const uniqueKeywords = Array.from(new Set(keywords.filter(k => k.length > 0))).sort((a, b) => b.length - a.length);
+  if (uniqueKeywords.length === 0) return [];
+
+  // Escape special regex characters
+  const escapedKeywords = uniqueKeywords.map(k => k.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+  const pattern = new RegExp(escapedKeywords.join('|'), 'gi');
+
+  return Array.from(text.matchAll(pattern), match => ({ start: match.index!, end: match.index! + match[0].length }));
+};
@@ -0,0 +1,187 @@
+import { DatasetRow, HistoryItem } from "../types";
+import { validateAnalysisResult } from "./validation";
+
+/**
+ * Portable history archives: a versioned JSON document holding HistoryItems,
+ * with voice audio embedded as base64 so an archive is self-contained.
+ */
+
+export const ARCHIVE_FORMAT = 'sentimind-history';
+export const ARCHIVE_VERSION = 1;
+
+interface ArchivedAudio {
+  mimeType: string;
+  base64: string;
+}
+
+type ArchivedItem = Omit<HistoryItem, 'audio'> & { audio?: ArchivedAudio };
+
+interface HistoryArchive {
+  format: typeof ARCHIVE_FORMAT;
+  version: number;
+  exportedAt: number;
+  items: ArchivedItem[];
+}
+
+export type ImportStrategy = 'merge' | 'replace';
+
+export interface ImportSummary {
+  added: number;
+  // Already present (merge) or duplicated within the archive
+  skipped: number;
+  invalid: number;
+  // Removed straight away by the retention policy
+  expired: number;
+}
+
+/**
+ * Upgrades archives written by older builds. MIGRATIONS[n] turns a version n
+ * archive into version n + 1; add an entry whenever ARCHIVE_VERSION is bumped
+ * because HistoryItem or AnalysisResult changed incompatibly.
+ */
+const MIGRATIONS: Record<number, (archive: HistoryArchive) => unknown> = {};
+
+// Envelope shared by every archive version; the items themselves are checked one by one on restore
+const isArchive = (value: unknown): value is HistoryArchive => {
+  if (typeof value !== 'object' || value === null) return false;
+  const { format, version, items } = value as Record<string, unknown>;
+  return format === ARCHIVE_FORMAT && typeof version === 'number' && Array.isArray(items);
+};
+
+const blobToBase64 = async (blob: Blob): Promise<string> => {
+  const bytes = new Uint8Array(await blob.arrayBuffer());
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const base64ToBlob = (base64: string, mimeType: string): Blob => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return new Blob([bytes], { type: mimeType });
+};
+
+export const exportArchive = async (items: HistoryItem[]): Promise<Blob> => {
+  const archivedItems = await Promise.all(items.map(async ({ audio, ...item }): Promise<ArchivedItem> => ({
+    ...item,
+    ...(audio ? { audio: { mimeType: audio.type || 'audio/wav', base64: await blobToBase64(audio) } } : {}),
+  })));
+
+  const archive: HistoryArchive = {
+    format: ARCHIVE_FORMAT,
+    version: ARCHIVE_VERSION,
+    exportedAt: Date.now(),
+    items: archivedItems,
+  };
+  return new Blob([JSON.stringify(archive)], { type: 'application/json' });
+};
+
+const migrate = (archive: HistoryArchive): HistoryArchive => {
+  let current = archive;
+  while (current.version < ARCHIVE_VERSION) {
+    const step = MIGRATIONS[current.version];
+    if (!step) {
+      throw new Error(`Archive version ${current.version} is no longer supported.`);
+    }
+    const next = step(current);
+    if (!isArchive(next)) {
+      throw new Error(`Archive version ${current.version} could not be upgraded.`);
+    }
+    current = next;
+  }
+  return current;
+};
+
+// Rows whose result doesn't validate are dropped; rows that were never analyzed are kept as they are
+const restoreRows = (rows: unknown[]): DatasetRow[] =>
+  rows.flatMap((row): DatasetRow[] => {
+    if (typeof row !== 'object' || row === null) return [];
+    const { result, ...rest } = row as DatasetRow;
+    if (result === undefined) return [row as DatasetRow];
+    try {
+      return [{ ...rest, result: validateAnalysisResult(result) }];
+    } catch (e) {
+      return [];
+    }
+  });
+
+// Returns null for entries that cannot be restored, so one bad item doesn't block the import
+const restoreItem = (item: ArchivedItem): HistoryItem | null => {
+  if (!item || typeof item.id !== 'string' || typeof item.timestamp !== 'number' || !item.data) {
+    return null;
+  }
+  if (!['text', 'voice', 'dataset', 'compare'].includes(item.mode)) return null;
+
+  try {
+    const { audio, ...rest } = item;
+    const restored: HistoryItem = { ...rest, summary: String(item.summary ?? '') };
+    if (item.mode === 'compare') {
+      if (!Array.isArray(item.data.input) || !Array.isArray(item.data.result)) return null;
+      restored.data = { ...item.data, result: item.data.result.map(validateAnalysisResult) };
+    } else if (item.mode === 'dataset') {
+      if (!Array.isArray(item.data.input)) return null;
+      restored.data = { ...item.data, input: restoreRows(item.data.input) };
+    } else if (item.data.result) {
+      restored.data = { ...item.data, result: validateAnalysisResult(item.data.result) };
+    }
+    if (audio) {
+      restored.audio = base64ToBlob(audio.base64, audio.mimeType);
+    }
+    return restored;
+  } catch (e) {
+    return null;
+  }
+};
+
+export const parseArchive = async (file: Blob): Promise<{ items: HistoryItem[]; invalid: number }> => {
+  let archive: unknown;
+  try {
+    archive = JSON.parse(await file.text());
+  } catch (e) {
+    throw new Error("The selected file is not valid JSON.");
+  }
+
+  if (!isArchive(archive)) {
+    throw new Error("The selected file is not a SentiMind history archive.");
+  }
+  if (archive.version > ARCHIVE_VERSION) {
+    throw new Error(`This archive was created by a newer version of SentiMind (v${archive.version}). Please update first.`);
+  }
+
+  const restored = migrate(archive).items.map(restoreItem);
+  const items = restored.filter((item): item is HistoryItem => item !== null);
+  return { items, invalid: restored.length - items.length };
+};
+
+/**
+ * Combines imported items with the existing history. 'merge' keeps every
+ * existing item and adds only ids that are not present yet; 'replace'
+ * discards the existing history. Archive duplicates are always collapsed.
+ */
+export const mergeHistory = (
+  existing: HistoryItem[],
+  incoming: HistoryItem[],
+  strategy: ImportStrategy
+): { items: HistoryItem[]; added: HistoryItem[]; skipped: number } => {
+  const base = strategy === 'replace' ? [] : existing;
+  const seen = new Set(base.map(item => item.id));
+  const added: HistoryItem[] = [];
+
+  incoming.forEach(item => {
+    if (seen.has(item.id)) return;
+    seen.add(item.id);
+    added.push(item);
+  });
+
+  return {
+    items: [...base, ...added].sort((a, b) => b.timestamp - a.timestamp),
+    added,
+    skipped: incoming.length - added.length,
+  };
+};
@@ -0,0 +1,112 @@
+import { AnalysisResult, AnalyzerMode, DatasetRow, EmergencyCategory, HistoryItem, SentimentType } from "../types";
+
+export interface HistoryFilters {
+  query: string;
+  mode: AnalyzerMode | null;
+  sentiment: SentimentType | null;
+  emergencyCategory: EmergencyCategory | null;
+  // Inclusive day range as yyyy-mm-dd strings from <input type="date">; '' means open-ended
+  from: string;
+  to: string;
+}
+
+export const EMPTY_FILTERS: HistoryFilters = {
+  query: '',
+  mode: null,
+  sentiment: null,
+  emergencyCategory: null,
+  from: '',
+  to: '',
+};
+
+export interface HistoryGroup {
+  key: string;
+  label: string;
+  items: HistoryItem[];
+}
+
+// All results attached to an item: one for text/voice, one per text for comparisons, one per analyzed row for datasets
+const resultsOf = (item: HistoryItem): AnalysisResult[] => {
+  if (item.mode === 'compare') {
+    return (item.data.result || []) as AnalysisResult[];
+  }
+  if (item.mode === 'dataset') {
+    return ((item.data.input || []) as DatasetRow[])
+      .map(row => row.result)
+      .filter((r): r is AnalysisResult => Boolean(r));
+  }
+  return item.data.result ? [item.data.result as AnalysisResult] : [];
+};
+
+// Text searched by the query box: the summary, the raw input and any transcripts
+const searchableText = (item: HistoryItem): string => {
+  const parts: string[] = [item.summary];
+  if (item.mode === 'text' && typeof item.data.input === 'string') {
+    parts.push(item.data.input);
+  }
+  if (item.mode === 'compare') {
+    ((item.data.input || []) as string[]).forEach(text => parts.push(text));
+  }
+  if (item.mode === 'dataset') {
+    ((item.data.input || []) as DatasetRow[]).forEach(row => parts.push(row.text));
+  }
+  resultsOf(item).forEach(r => r.transcript && parts.push(r.transcript));
+  return parts.join('\n').toLowerCase();
+};
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00`).getTime();
+
+export const filterHistory = (items: HistoryItem[], filters: HistoryFilters): HistoryItem[] => {
+  const query = filters.query.trim().toLowerCase();
+  const from = filters.from ? startOfDay(filters.from) : null;
+  const to = filters.to ? startOfDay(filters.to) + 24 * 60 * 60 * 1000 : null;
+
+  return items.filter(item => {
+    if (filters.mode && item.mode !== filters.mode) return false;
+    if (from !== null && item.timestamp < from) return false;
+    if (to !== null && item.timestamp >= to) return false;
+
+    // Datasets match a sentiment/category filter when any of their rows do
+    const results = resultsOf(item);
+    if (filters.sentiment && !results.some(r => r.sentiment === filters.sentiment)) return false;
+    if (filters.emergencyCategory && !results.some(r => r.emergencyCategory === filters.emergencyCategory)) return false;
+
+    return !query || searchableText(item).includes(query);
+  });
+};
+
+export const isFiltered = (filters: HistoryFilters) =>
+  Object.keys(EMPTY_FILTERS).some(key =>
+    filters[key as keyof HistoryFilters] !== EMPTY_FILTERS[key as keyof HistoryFilters]);
+
+const dayLabel = (timestamp: number): string => {
+  const date = new Date(timestamp);
+  const today = new Date();
+  const yesterday = new Date();
+  yesterday.setDate(today.getDate() - 1);
+
+  if (date.toDateString() === today.toDateString()) return 'Today';
+  if (date.toDateString() === yesterday.toDateString()) return 'Yesterday';
+  return date.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric', year: 'numeric' });
+};
+
+// Pinned items first, then one group per calendar day, newest first
+export const groupHistoryByDay = (items: HistoryItem[]): HistoryGroup[] => {
+  const groups: HistoryGroup[] = [];
+  const pinned = items.filter(item => item.pinned);
+  if (pinned.length > 0) {
+    groups.push({ key: 'pinned', label: 'Pinned', items: pinned });
+  }
+
+  items.filter(item => !item.pinned).forEach(item => {
+    const key = new Date(item.timestamp).toDateString();
+    const last = groups[groups.length - 1];
+    if (last && last.key === key) {
+      last.items.push(item);
+    } else {
+      groups.push({ key, label: dayLabel(item.timestamp), items: [item] });
+    }
+  });
+
+  return groups;
+};
@@ -0,0 +1,96 @@
+import { HistoryItem } from "../types";
+import { HISTORY_STORE, openDb, promisify, transactionDone } from "./db";
+
+/**
+ * Persistent analysis history backed by IndexedDB. Items are stored whole,
+ * including the WAV Blob of voice analyses, so they survive page reloads.
+ */
+
+const RETENTION_KEY = 'sentimind_history_retention';
+
+export interface RetentionPolicy {
+  // null means unlimited
+  maxItems: number | null;
+  maxAgeDays: number | null;
+}
+
+export const DEFAULT_RETENTION: RetentionPolicy = { maxItems: 200, maxAgeDays: 30 };
+
+export interface StorageUsage {
+  itemCount: number;
+  usageBytes: number | null;
+  quotaBytes: number | null;
+}
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  return promisify(fn(db.transaction(HISTORY_STORE, mode).objectStore(HISTORY_STORE)));
+};
+
+// Newest first
+export const loadHistory = async (): Promise<HistoryItem[]> => {
+  const items = await withStore<HistoryItem[]>('readonly', store => store.getAll());
+  return items.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveHistoryItem = (item: HistoryItem) =>
+  withStore('readwrite', store => store.put(item));
+
+export const saveHistoryItems = async (items: HistoryItem[]) => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  items.forEach(item => tx.objectStore(HISTORY_STORE).put(item));
+  await transactionDone(tx);
+};
+
+export const deleteHistoryItems = async (ids: string[]) => {
+  const db = await openDb();
+  const tx = db.transaction(HISTORY_STORE, 'readwrite');
+  ids.forEach(id => tx.objectStore(HISTORY_STORE).delete(id));
+  await transactionDone(tx);
+};
+
+export const clearHistory = () => withStore('readwrite', store => store.clear());
+
+export const loadRetentionPolicy = (): RetentionPolicy => {
+  try {
+    const stored = localStorage.getItem(RETENTION_KEY);
+    return stored ? { ...DEFAULT_RETENTION, ...JSON.parse(stored) } : DEFAULT_RETENTION;
+  } catch (e) {
+    return DEFAULT_RETENTION;
+  }
+};
+
+export const saveRetentionPolicy = (policy: RetentionPolicy) => {
+  localStorage.setItem(RETENTION_KEY, JSON.stringify(policy));
+};
+
+/**
+ * Deletes items that fall outside the policy: anything older than maxAgeDays,
+ * then the oldest items beyond maxItems. Pinned items are always kept and do
+ * not count towards maxItems. Returns the ids that were removed.
+ */
+export const applyRetention = async (policy: RetentionPolicy): Promise<string[]> => {
+  const items = (await loadHistory()).filter(item => !item.pinned);
+  const cutoff = policy.maxAgeDays !== null ? Date.now() - policy.maxAgeDays * 24 * 60 * 60 * 1000 : null;
+
+  const expired = items.filter((item, index) =>
+    (cutoff !== null && item.timestamp < cutoff) ||
+    (policy.maxItems !== null && index >= policy.maxItems)
+  ).map(item => item.id);
+
+  if (expired.length > 0) {
+    await deleteHistoryItems(expired);
+  }
+  return expired;
+};
+
+export const getStorageUsage = async (): Promise<StorageUsage> => {
+  const itemCount = await withStore<number>('readonly', store => store.count());
+  // StorageManager reports the whole origin, which is dominated by this database
+  if (navigator.storage?.estimate) {
+    const { usage, quota } = await navigator.storage.estimate();
+    return { itemCount, usageBytes: usage ?? null, quotaBytes: quota ?? null };
+  }
+  return { itemCount, usageBytes: null, quotaBytes: null };
+};
@@ -0,0 +1,48 @@
+import { AnalysisResult } from "../types";
+import { SentimentProvider, batchFromText } from "./sentimentProvider";
+import { ProviderRequestError } from "./errors";
+
+interface HttpProviderConfig {
+  id: string;
+  label: string;
+  baseUrl: string;
+  headers?: Record<string, string>;
+}
+
+/**
+ * Provider backed by a self-hosted HTTP service (e.g. a Python/BERT model server).
+ * The service is expected to expose:
+ *   POST /analyze/text  { text, options }             -> AnalysisResult
+ *   POST /analyze/audio { audio, mimeType, options }  -> AnalysisResult
+ * where `options` holds the optional analyses requested (see AnalysisOptions).
+ * Batches are sent row by row through /analyze/text, so each row is rate
+ * limited, retried and reported on individually like every other provider.
+ */
+export const createHttpProvider = ({ id, label, baseUrl, headers }: HttpProviderConfig): SentimentProvider => {
+  const post = async <T>(path: string, body: unknown, signal?: AbortSignal): Promise<T> => {
+    const response = await fetch(`${baseUrl.replace(/\/$/, '')}${path}`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...headers },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      throw new ProviderRequestError(`Request to ${path} failed with status ${response.status}.`, response.status);
+    }
+    return response.json() as Promise<T>;
+  };
+
+  const analyzeText: SentimentProvider['analyzeText'] = (text, { signal, ...options } = {}) =>
+    post<AnalysisResult>('/analyze/text', { text, options }, signal);
+
+  return {
+    id,
+    label,
+    description: `Self-hosted analysis service at ${baseUrl}.`,
+    supportsAudio: true,
+    analyzeText,
+    analyzeAudio: (audio, mimeType, { signal, ...options } = {}) =>
+      post<AnalysisResult>('/analyze/audio', { audio, mimeType, options }, signal),
+    analyzeBatch: batchFromText(analyzeText),
+  };
+};
@@ -0,0 +1,131 @@
+import { DatasetRow, SentimentType } from "../types";
+
+/**
+ * Dataset-level keyword analytics. Keyword variants are merged under a
+ * normalized key (case, surrounding punctuation and common English
+ * inflections), then counted per sentiment and per co-occurring pair.
+ */
+
+export interface KeywordStat {
+  key: string;
+  // Most frequent surface form, used for display
+  term: string;
+  count: number;
+  bySentiment: Record<SentimentType, number>;
+}
+
+export interface KeywordDriver extends KeywordStat {
+  // How over-represented the keyword is in the class compared to the dataset (1 = no difference)
+  lift: number;
+}
+
+export interface KeywordAnalytics {
+  keywords: KeywordStat[];
+  // Analyzed rows per sentiment, the baseline for lift
+  rowsBySentiment: Record<SentimentType, number>;
+  analyzedRows: number;
+  // Rows containing both keywords, keyed by `${a}\u0000${b}` with a < b
+  pairs: Map<string, number>;
+}
+
+const SENTIMENTS = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+const MIN_DRIVER_COUNT = 2;
+
+// Light suffix stripping in the spirit of Porter step 1; only applied to ASCII words
+const stemWord = (word: string): string => {
+  if (!/^[a-z]+$/.test(word) || word.length <= 3) return word;
+  if (word.endsWith('ies') && word.length > 4) return word.slice(0, -3) + 'y';
+  if (word.endsWith('sses')) return word.slice(0, -2);
+  if (word.endsWith('ing') && word.length > 5) return word.slice(0, -3);
+  if (word.endsWith('ed') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('ly') && word.length > 4) return word.slice(0, -2);
+  if (word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us')) return word.slice(0, -1);
+  return word;
+};
+
+export const normalizeKeyword = (keyword: string): string =>
+  keyword
+    .toLowerCase()
+    .replace(/^[^\p{L}\p{N}]+|[^\p{L}\p{N}]+$/gu, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(stemWord)
+    .join(' ');
+
+const pairKey = (a: string, b: string) => a < b ? `${a}\u0000${b}` : `${b}\u0000${a}`;
+
+const emptyCounts = () =>
+  Object.fromEntries(SENTIMENTS.map(s => [s, 0])) as Record<SentimentType, number>;
+
+export const analyzeKeywords = (rows: DatasetRow[]): KeywordAnalytics => {
+  const stats = new Map<string, KeywordStat & { forms: Map<string, number> }>();
+  const pairs = new Map<string, number>();
+  const rowsBySentiment = emptyCounts();
+  let analyzedRows = 0;
+
+  rows.forEach(row => {
+    if (!row.result) return;
+    analyzedRows++;
+    const { sentiment } = row.result;
+    rowsBySentiment[sentiment]++;
+
+    // Each keyword counts once per row, whichever variants the model returned
+    const keys = new Map<string, string>();
+    row.result.keywords.forEach(keyword => {
+      const key = normalizeKeyword(keyword);
+      if (key && !keys.has(key)) keys.set(key, keyword.trim());
+    });
+
+    keys.forEach((form, key) => {
+      let stat = stats.get(key);
+      if (!stat) {
+        stat = { key, term: form, count: 0, bySentiment: emptyCounts(), forms: new Map() };
+        stats.set(key, stat);
+      }
+      stat.count++;
+      stat.bySentiment[sentiment]++;
+      const lower = form.toLowerCase();
+      stat.forms.set(lower, (stat.forms.get(lower) || 0) + 1);
+    });
+
+    const rowKeys = [...keys.keys()];
+    for (let i = 0; i < rowKeys.length; i++) {
+      for (let j = i + 1; j < rowKeys.length; j++) {
+        const key = pairKey(rowKeys[i], rowKeys[j]);
+        pairs.set(key, (pairs.get(key) || 0) + 1);
+      }
+    }
+  });
+
+  const keywords = [...stats.values()]
+    .map(({ forms, ...stat }) => ({
+      ...stat,
+      term: [...forms.entries()].sort((a, b) => b[1] - a[1])[0][0],
+    }))
+    .sort((a, b) => b.count - a.count || a.term.localeCompare(b.term));
+
+  return { keywords, rowsBySentiment, analyzedRows, pairs };
+};
+
+/**
+ * Keywords that characterise a sentiment class: mentioned at least twice in
+ * it and over-represented compared to the whole dataset, ranked by how
+ * often they appear in the class.
+ */
+export const topDrivers = (analytics: KeywordAnalytics, sentiment: SentimentType, limit: number): KeywordDriver[] => {
+  const classShare = analytics.rowsBySentiment[sentiment] / (analytics.analyzedRows || 1);
+  if (classShare === 0) return [];
+
+  return analytics.keywords
+    .filter(k => k.bySentiment[sentiment] >= MIN_DRIVER_COUNT)
+    .map(k => ({ ...k, lift: (k.bySentiment[sentiment] / k.count) / classShare }))
+    .filter(k => k.lift > 1)
+    .sort((a, b) => b.bySentiment[sentiment] - a.bySentiment[sentiment] || b.lift - a.lift)
+    .slice(0, limit);
+};
+
+export const coOccurrence = (analytics: KeywordAnalytics, a: string, b: string) =>
+  analytics.pairs.get(pairKey(a, b)) || 0;
+
+export const rowHasKeyword = (row: DatasetRow, key: string) =>
+  !!row.result?.keywords.some(keyword => normalizeKeyword(keyword) === key);
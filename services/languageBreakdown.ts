@@ -0,0 +1,56 @@
+import { DatasetRow, SentimentType } from "../types";
+import { UNKNOWN_LANGUAGE, languageName } from "./languages";
+
+/**
+ * Per-language sentiment statistics for a dataset, using the language the
+ * provider detected for each row.
+ */
+
+export interface LanguageStat {
+  code: string;
+  name: string;
+  count: number;
+  bySentiment: Record<SentimentType, number>;
+  // Mean of +score for Positive, -score for Negative, 0 for Neutral
+  avgScore: number;
+  emergencies: number;
+}
+
+const SENTIMENTS = [SentimentType.POSITIVE, SentimentType.NEUTRAL, SentimentType.NEGATIVE];
+
+const signedScore = (row: DatasetRow) => {
+  const { sentiment, score } = row.result!;
+  return sentiment === SentimentType.POSITIVE ? score : sentiment === SentimentType.NEGATIVE ? -score : 0;
+};
+
+export const rowLanguage = (row: DatasetRow) => row.result?.language || UNKNOWN_LANGUAGE;
+
+// Languages by number of analyzed rows; rows without a detected language are grouped as unknown
+export const buildLanguageBreakdown = (rows: DatasetRow[]): LanguageStat[] => {
+  const stats = new Map<string, LanguageStat & { scoreSum: number }>();
+  rows.forEach(row => {
+    if (!row.result) return;
+    const code = rowLanguage(row);
+    let stat = stats.get(code);
+    if (!stat) {
+      stat = {
+        code,
+        name: languageName(code),
+        count: 0,
+        bySentiment: Object.fromEntries(SENTIMENTS.map(s => [s, 0])) as Record<SentimentType, number>,
+        avgScore: 0,
+        emergencies: 0,
+        scoreSum: 0,
+      };
+      stats.set(code, stat);
+    }
+    stat.count++;
+    stat.bySentiment[row.result.sentiment]++;
+    stat.scoreSum += signedScore(row);
+    if (row.result.emergencyCategory !== 'None') stat.emergencies++;
+  });
+
+  return [...stats.values()]
+    .map(({ scoreSum, ...stat }) => ({ ...stat, avgScore: scoreSum / stat.count }))
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
@@ -0,0 +1,62 @@
+/**
+ * Language helpers for multilingual analysis. Results carry an ISO 639-1
+ * code; the languages our users write in most get curated names, any other
+ * code is named through Intl.DisplayNames.
+ */
+
+export const SUPPORTED_LANGUAGES: Record<string, { name: string; nativeName: string }> = {
+  en: { name: 'English', nativeName: 'English' },
+  hi: { name: 'Hindi', nativeName: 'हिन्दी' },
+  te: { name: 'Telugu', nativeName: 'తెలుగు' },
+  es: { name: 'Spanish', nativeName: 'Español' },
+};
+
+export const DEFAULT_LANGUAGE = 'en';
+
+export const UNKNOWN_LANGUAGE = 'und';
+
+// "hi-IN", " HI " and "hin" style inputs all become a lowercase primary subtag; names of supported languages map to their code
+export const normalizeLanguageCode = (code: string): string => {
+  const named = Object.keys(SUPPORTED_LANGUAGES).find(key => SUPPORTED_LANGUAGES[key].name.toLowerCase() === code.trim().toLowerCase());
+  if (named) return named;
+  const primary = code.trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(primary) ? primary : UNKNOWN_LANGUAGE;
+};
+
+export const languageName = (code: string | undefined): string => {
+  if (!code || code === UNKNOWN_LANGUAGE) return 'Unknown';
+  if (SUPPORTED_LANGUAGES[code]) return SUPPORTED_LANGUAGES[code].name;
+  try {
+    return new Intl.DisplayNames(['en'], { type: 'language' }).of(code) ?? code.toUpperCase();
+  } catch {
+    return code.toUpperCase();
+  }
+};
+
+// The browser's language when we support it, so explanations default to what the user reads
+export const browserLanguage = (): string => {
+  if (typeof navigator === 'undefined') return DEFAULT_LANGUAGE;
+  const code = normalizeLanguageCode(navigator.language || DEFAULT_LANGUAGE);
+  return SUPPORTED_LANGUAGES[code] ? code : DEFAULT_LANGUAGE;
+};
+
+const SPANISH_HINTS = new Set(['el', 'la', 'los', 'las', 'que', 'de', 'muy', 'pero', 'es', 'no', 'gracias', 'por', 'para', 'con', 'una', 'está', 'servicio']);
+
+/**
+ * Script-based guess for offline providers: Devanagari and Telugu script are
+ * unambiguous, Spanish is recognised by its accents and function words, and
+ * everything else is assumed to be English.
+ */
+export const detectLanguage = (text: string): string => {
+  const letters = text.match(/\p{L}/gu)?.length ?? 0;
+  if (letters === 0) return UNKNOWN_LANGUAGE;
+  const devanagari = text.match(/\p{Script=Devanagari}/gu)?.length ?? 0;
+  const telugu = text.match(/\p{Script=Telugu}/gu)?.length ?? 0;
+  if (devanagari / letters > 0.3) return 'hi';
+  if (telugu / letters > 0.3) return 'te';
+
+  const words = text.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+  const spanish = words.filter(w => SPANISH_HINTS.has(w)).length;
+  if (/[ñ¿¡]/i.test(text) || (words.length > 0 && spanish / words.length > 0.2)) return 'es';
+  return 'en';
+};
@@ -0,0 +1,211 @@
+import { AnalysisResult, EmergencyCategory, SentimentType } from "../types";
+import { SentimentProvider, batchFromText } from "./sentimentProvider";
+import { detectLanguage } from "./languages";
+
+/**
+ * Offline, rule-based sentiment engine. Scores text against a bundled valence
+ * lexicon (-4..4, AFINN style) with negation, intensifier and emoji handling,
+ * normalised the same way VADER computes its compound score. Fully
+ * deterministic, so it doubles as a baseline to compare model output against.
+ */
+
+const LEXICON: Record<string, number> = {
+  // Positive
+  good: 2, great: 3, excellent: 3, amazing: 4, awesome: 4, fantastic: 4, wonderful: 4,
+  love: 3, loved: 3, loving: 3, like: 1, liked: 2, enjoy: 2, enjoyed: 2, happy: 3,
+  glad: 2, pleased: 2, delighted: 3, satisfied: 2, nice: 2, best: 3, better: 2,
+  perfect: 3, brilliant: 3, superb: 3, outstanding: 4, helpful: 2, friendly: 2,
+  fast: 1, quick: 1, easy: 1, smooth: 1, recommend: 2, recommended: 2, thanks: 2,
+  thank: 2, grateful: 3, beautiful: 3, fun: 2, impressive: 3, reliable: 2, calm: 1,
+  safe: 1, fine: 1, okay: 0.5, ok: 0.5, win: 2, success: 2, successful: 2, relief: 2,
+  relieved: 2, exciting: 3, excited: 3, hope: 1, hopeful: 2, support: 1, fixed: 1,
+  // Negative
+  bad: -2, terrible: -3, horrible: -3, awful: -3, worst: -4, worse: -2, poor: -2,
+  hate: -3, hated: -3, dislike: -2, angry: -3, furious: -4, annoyed: -2, annoying: -2,
+  frustrated: -2, frustrating: -2, sad: -2, unhappy: -2, upset: -2, disappointed: -2,
+  disappointing: -2, useless: -2, broken: -2, slow: -1, late: -1, rude: -2, wrong: -2,
+  fail: -2, failed: -2, failure: -2, problem: -1, problems: -1, issue: -1, issues: -1,
+  bug: -1, crash: -2, crashed: -2, error: -1, waste: -2, refund: -1, scam: -3,
+  cheated: -3, lost: -2, cry: -2, crying: -2, scared: -2, afraid: -2, fear: -2,
+  worried: -2, panic: -3, pain: -2, hurt: -2, hurts: -2, injured: -3, sick: -2,
+  ill: -2, bleeding: -3, dying: -4, dead: -3, die: -3, attack: -3, attacked: -3,
+  danger: -2, dangerous: -3, threat: -3, threatened: -3, abuse: -3, abused: -3,
+  robbed: -3, stolen: -2, violence: -3, help: -1, emergency: -2, unsafe: -3,
+  disgusting: -3, nasty: -3, stupid: -2, ugly: -2, boring: -2, confusing: -1,
+  expensive: -1, overpriced: -2, never: -1, nothing: -1, alone: -1, lonely: -2,
+};
+
+const EMOJI: Record<string, number> = {
+  '😀': 2, '😃': 2, '😄': 2, '😁': 2, '😊': 2, '🙂': 1, '😍': 3, '🥰': 3, '😂': 2,
+  '🤣': 2, '👍': 2, '👏': 2, '🎉': 3, '❤️': 3, '❤': 3, '💯': 2, '🙏': 1, '✨': 1,
+  '😐': 0, '😕': -1, '🙁': -1, '☹️': -2, '😞': -2, '😢': -2, '😭': -3, '😠': -3,
+  '😡': -4, '🤬': -4, '👎': -2, '💔': -3, '😱': -3, '😨': -2, '😰': -2, '🤮': -3,
+};
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'cannot',
+  "don't", "doesn't", "didn't", "isn't", "wasn't", "aren't", "weren't", "won't",
+  "wouldn't", "shouldn't", "couldn't", "can't", "haven't", "hasn't", "hadn't",
+  'dont', 'doesnt', 'didnt', 'isnt', 'wasnt', 'cant', 'wont', 'without',
+]);
+
+const INTENSIFIERS: Record<string, number> = {
+  very: 1.5, really: 1.4, extremely: 1.8, so: 1.3, too: 1.3, totally: 1.5,
+  absolutely: 1.6, incredibly: 1.7, super: 1.5, highly: 1.4, completely: 1.5,
+  utterly: 1.7, most: 1.3, quite: 1.2, slightly: 0.6, somewhat: 0.7,
+  barely: 0.5, kinda: 0.7, little: 0.7,
+};
+
+const HEALTH_TERMS = [
+  'ambulance', 'hospital', 'doctor', 'bleeding', 'injured', 'injury', 'pain', 'hurt',
+  'sick', 'ill', 'unconscious', 'breathe', 'breathing', 'heart', 'overdose', 'fainted',
+  'dying', 'medical', 'fever', 'seizure', 'stroke', 'fracture', 'poison', 'accident',
+];
+
+const SAFETY_TERMS = [
+  'police', 'attack', 'attacked', 'robbed', 'robbery', 'stolen', 'thief', 'gun', 'knife',
+  'weapon', 'abuse', 'abused', 'threat', 'threatened', 'assault', 'violence', 'kidnap',
+  'stalking', 'stalker', 'harass', 'harassed', 'unsafe', 'danger', 'dangerous', 'fire',
+];
+
+const URGENCY_TERMS = ['help', 'emergency', 'urgent', 'asap', 'immediately', 'please'];
+
+// Damping applied to a term's valence when preceded by a negation (VADER uses the same constant)
+const NEGATION_SCALAR = -0.74;
+// Number of preceding tokens searched for a negation
+const NEGATION_WINDOW = 3;
+// VADER normalisation constant: compound = sum / sqrt(sum^2 + alpha)
+const NORMALIZATION_ALPHA = 15;
+const NEUTRAL_THRESHOLD = 0.05;
+
+const TOKEN_PATTERN = /\p{Extended_Pictographic}\uFE0F?|[\p{L}\p{N}']+|!/gu;
+
+const tokenize = (text: string): string[] =>
+  (text.match(TOKEN_PATTERN) || []).map(t => t.toLowerCase());
+
+interface MatchedTerm {
+  phrase: string;
+  valence: number;
+}
+
+const scoreTokens = (tokens: string[]): { sum: number; matches: MatchedTerm[] } => {
+  const matches: MatchedTerm[] = [];
+  let sum = 0;
+
+  tokens.forEach((token, i) => {
+    const emoji = EMOJI[token] ?? EMOJI[token.replace(/\uFE0F$/, '')];
+    if (emoji !== undefined) {
+      // Emoji carry their own polarity; they are never negated or intensified
+      if (emoji !== 0) {
+        sum += emoji;
+        matches.push({ phrase: token, valence: emoji });
+      }
+      return;
+    }
+
+    const base = LEXICON[token];
+    if (base === undefined) return;
+
+    let valence = base;
+    const phrase: string[] = [token];
+
+    const prev = tokens[i - 1];
+    if (prev && INTENSIFIERS[prev]) {
+      valence *= INTENSIFIERS[prev];
+      phrase.unshift(prev);
+    }
+
+    const window = tokens.slice(Math.max(0, i - NEGATION_WINDOW), i);
+    const negator = window.find(t => NEGATIONS.has(t));
+    if (negator) {
+      valence *= NEGATION_SCALAR;
+      if (!phrase.includes(negator)) phrase.unshift(negator);
+    }
+
+    sum += valence;
+    matches.push({ phrase: phrase.join(' '), valence });
+  });
+
+  // Exclamation marks amplify whatever direction the text already leans (capped at 4)
+  const exclamations = Math.min(tokens.filter(t => t === '!').length, 4);
+  if (sum !== 0) {
+    sum += Math.sign(sum) * exclamations * 0.3;
+  }
+
+  return { sum, matches };
+};
+
+const classifyEmergency = (tokens: string[], sentiment: SentimentType, compound: number): EmergencyCategory => {
+  if (sentiment !== SentimentType.NEGATIVE) return 'None';
+  const has = (terms: string[]) => tokens.some(t => terms.includes(t));
+  if (has(HEALTH_TERMS)) return 'Health';
+  if (has(SAFETY_TERMS)) return 'Safety';
+  if (has(URGENCY_TERMS) && compound <= -0.5) return 'General';
+  return 'None';
+};
+
+const buildExplanation = (sentiment: SentimentType, matches: MatchedTerm[], compound: number): string => {
+  if (matches.length === 0) {
+    return "Offline lexicon engine: no sentiment-bearing terms were found, so the text is treated as neutral.";
+  }
+  const positives = matches.filter(m => m.valence > 0).map(m => `"${m.phrase}"`);
+  const negatives = matches.filter(m => m.valence < 0).map(m => `"${m.phrase}"`);
+  const parts = [];
+  if (positives.length) parts.push(`positive cues ${positives.slice(0, 4).join(', ')}`);
+  if (negatives.length) parts.push(`negative cues ${negatives.slice(0, 4).join(', ')}`);
+  return `Offline lexicon engine: found ${parts.join(' and ')}. ` +
+    `Combined polarity ${compound.toFixed(2)} on a -1..1 scale, classified as ${sentiment}.`;
+};
+
+// Share of the weaker polarity relative to the stronger one: 0 when one-sided, 1 when evenly split
+const mixedSignal = (matches: MatchedTerm[]): number => {
+  const positive = matches.filter(m => m.valence > 0).reduce((sum, m) => sum + m.valence, 0);
+  const negative = -matches.filter(m => m.valence < 0).reduce((sum, m) => sum + m.valence, 0);
+  if (positive === 0 || negative === 0) return 0;
+  return Math.round(Math.min(positive, negative) / Math.max(positive, negative) * 100) / 100;
+};
+
+export const analyzeTextLocally = (text: string): AnalysisResult => {
+  const tokens = tokenize(text);
+  const { sum, matches } = scoreTokens(tokens);
+  const compound = sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA);
+
+  let sentiment = SentimentType.NEUTRAL;
+  if (compound >= NEUTRAL_THRESHOLD) sentiment = SentimentType.POSITIVE;
+  if (compound <= -NEUTRAL_THRESHOLD) sentiment = SentimentType.NEGATIVE;
+
+  // Confidence grows with polarity strength for Positive/Negative, and with its absence for Neutral
+  const score = sentiment === SentimentType.NEUTRAL
+    ? 1 - Math.abs(compound) / NEUTRAL_THRESHOLD * 0.5
+    : 0.5 + Math.abs(compound) / 2;
+
+  return {
+    sentiment,
+    score: Math.round(Math.min(1, Math.max(0, score)) * 100) / 100,
+    keywords: Array.from(new Set(matches.map(m => m.phrase))),
+    explanation: buildExplanation(sentiment, matches, compound),
+    transcript: text,
+    emergencyCategory: classifyEmergency(tokens, sentiment, compound),
+    language: detectLanguage(text),
+    // A lexicon cannot recognise sarcasm, so only the mixed signal is reported
+    signals: { mixed: mixedSignal(matches) },
+  };
+};
+
+const analyzeText = async (text: string): Promise<AnalysisResult> => analyzeTextLocally(text);
+
+const analyzeAudio = async (): Promise<AnalysisResult> => {
+  throw new Error("The offline lexicon engine cannot transcribe audio.");
+};
+
+export const lexiconProvider: SentimentProvider = {
+  id: 'lexicon',
+  label: 'Offline Lexicon',
+  description: 'Bundled rule-based engine. Works without network access; text only.',
+  supportsAudio: false,
+  // Runs in-process, so there is no quota to protect
+  rateLimit: { concurrency: 16, requestsPerSecond: Infinity },
+  analyzeText,
+  analyzeAudio,
+  analyzeBatch: batchFromText(analyzeText),
+};
@@ -0,0 +1,95 @@
+import { AnalysisResult, SentimentType } from "../types";
+
+/**
+ * Live analysis while recording. MediaRecorder's timeslice chunks can't be
+ * decoded on their own (only the first carries the container header), so
+ * instead the recorder is restarted every few seconds and each run yields a
+ * standalone clip.
+ */
+
+export interface LiveChunk {
+  index: number;
+  // Seconds since live recording started
+  start: number;
+  end: number;
+  status: 'pending' | 'done' | 'error';
+  result?: AnalysisResult;
+}
+
+export interface RollingRecorder {
+  // Finishes the current chunk, which is still delivered, and stops restarting
+  stop: () => void;
+}
+
+export const CHUNK_LENGTHS = [5, 10, 15];
+export const DEFAULT_CHUNK_SECONDS = 5;
+
+// The running gauge averages this many of the latest chunks
+const GAUGE_WINDOW = 3;
+
+export const startRollingRecorder = (
+  stream: MediaStream,
+  chunkSeconds: number,
+  onChunk: (blob: Blob, chunk: { index: number; start: number; end: number }) => void
+): RollingRecorder => {
+  const startedAt = performance.now();
+  const elapsed = () => (performance.now() - startedAt) / 1000;
+  let recorder: MediaRecorder;
+  let index = 0;
+
+  const begin = () => {
+    const parts: Blob[] = [];
+    const current = new MediaRecorder(stream);
+    const chunk = { index: index++, start: elapsed(), end: 0 };
+    current.ondataavailable = (e) => {
+      if (e.data.size > 0) parts.push(e.data);
+    };
+    current.onstop = () => {
+      chunk.end = elapsed();
+      if (parts.length > 0) onChunk(new Blob(parts, { type: current.mimeType || 'audio/webm' }), chunk);
+    };
+    current.start();
+    recorder = current;
+  };
+
+  begin();
+  // Audio in the few milliseconds between stop and the next start is not captured
+  const timer = setInterval(() => {
+    recorder.stop();
+    begin();
+  }, chunkSeconds * 1000);
+
+  return {
+    stop: () => {
+      clearInterval(timer);
+      if (recorder.state !== 'inactive') recorder.stop();
+    },
+  };
+};
+
+// Negative chunks about health or safety raise the emergency panel straight away
+export const isUrgentResult = (result: AnalysisResult) =>
+  result.sentiment === SentimentType.NEGATIVE && (result.emergencyCategory === 'Health' || result.emergencyCategory === 'Safety');
+
+// Chunk transcripts in recording order
+export const liveTranscript = (chunks: LiveChunk[]) =>
+  [...chunks]
+    .sort((a, b) => a.index - b.index)
+    .map(c => c.result?.transcript?.trim())
+    .filter(Boolean)
+    .join(' ');
+
+const signedScore = (result: AnalysisResult) =>
+  result.sentiment === SentimentType.POSITIVE ? result.score
+    : result.sentiment === SentimentType.NEGATIVE ? -result.score
+    : 0;
+
+// Mean signed score of the latest analyzed chunks, -1..1, or null before the first result
+export const liveScore = (chunks: LiveChunk[]): number | null => {
+  const recent = chunks
+    .filter(c => c.result)
+    .sort((a, b) => b.index - a.index)
+    .slice(0, GAUGE_WINDOW);
+  if (recent.length === 0) return null;
+  return recent.reduce((sum, c) => sum + signedScore(c.result!), 0) / recent.length;
+};
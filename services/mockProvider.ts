@@ -0,0 +1,120 @@
+import { AnalysisResult, AspectSentiment, EmotionScore, EmotionTaxonomy, SentimentType, TranscriptWord } from "../types";
+import { AnalysisOptions, SentimentProvider, batchFromText } from "./sentimentProvider";
+import { EMOTION_TAXONOMIES } from "./emotions";
+import { detectLanguage } from "./languages";
+
+// Canned provider for demos and UI work. Results are deterministic for a given input.
+const POSITIVE_HINTS = ['good', 'great', 'love', 'excellent', 'happy', 'thanks', 'amazing'];
+const NEGATIVE_HINTS = ['bad', 'terrible', 'hate', 'awful', 'angry', 'broken', 'help'];
+
+const SARCASM_HINTS = /\b(yeah right|oh great|just great|thanks a lot|what a surprise)\b/i;
+
+const delay = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+const classify = (text: string) => {
+  const words = text.toLowerCase().split(/\W+/).filter(Boolean);
+  const positives = words.filter(w => POSITIVE_HINTS.includes(w));
+  const negatives = words.filter(w => NEGATIVE_HINTS.includes(w));
+
+  let sentiment = SentimentType.NEUTRAL;
+  if (positives.length > negatives.length) sentiment = SentimentType.POSITIVE;
+  if (negatives.length > positives.length) sentiment = SentimentType.NEGATIVE;
+  return { words, positives, negatives, sentiment };
+};
+
+// One aspect per clause that contains a hint word, named after the clause's first longer non-hint word
+const mockAspects = (text: string): AspectSentiment[] =>
+  text.split(/[,.;!?]|\bbut\b|\band\b/i)
+    .map(clause => clause.trim())
+    .flatMap(clause => {
+      const { words, sentiment } = classify(clause);
+      const aspect = words.find(w => w.length > 3 && !POSITIVE_HINTS.includes(w) && !NEGATIVE_HINTS.includes(w));
+      if (sentiment === SentimentType.NEUTRAL || !aspect) return [];
+      return [{ aspect, sentiment, score: 0.8, span: clause }];
+    });
+
+// Weights the taxonomy's emotions by hint words, on top of a flat baseline
+const EMOTION_HINTS: Record<string, string[]> = {
+  anger: ['angry', 'hate'],
+  frustration: ['broken', 'again', 'still'],
+  fear: ['help', 'scared'],
+  sadness: ['sad', 'awful'],
+  disgust: ['terrible', 'gross'],
+  joy: ['happy', 'love', 'amazing'],
+  satisfaction: ['good', 'great', 'excellent'],
+  gratitude: ['thanks'],
+  trust: ['excellent'],
+};
+
+const mockEmotions = (words: string[], taxonomy: EmotionTaxonomy): EmotionScore[] => {
+  const weights = EMOTION_TAXONOMIES[taxonomy].emotions.map(emotion =>
+    1 + 4 * words.filter(w => EMOTION_HINTS[emotion]?.includes(w)).length);
+  const total = weights.reduce((a, b) => a + b, 0);
+  return EMOTION_TAXONOMIES[taxonomy].emotions.map((emotion, i) => ({ emotion, probability: weights[i] / total }));
+};
+
+const mockAnalyze = (text: string, options: AnalysisOptions = {}): AnalysisResult => {
+  const { words, positives, negatives, sentiment } = classify(text);
+  const language = detectLanguage(text);
+
+  return {
+    sentiment,
+    score: sentiment === SentimentType.NEUTRAL ? 0.5 : 0.9,
+    keywords: Array.from(new Set([...positives, ...negatives])),
+    explanation: `Mock provider: ${positives.length} positive and ${negatives.length} negative hint words found.`,
+    transcript: text,
+    emergencyCategory: sentiment === SentimentType.NEGATIVE ? 'General' : 'None',
+    ...(options.aspects ? { aspects: mockAspects(text) } : {}),
+    ...(options.emotions ? { emotions: mockEmotions(words, options.emotions) } : {}),
+    language,
+    signals: {
+      sarcasm: SARCASM_HINTS.test(text) ? 0.85 : 0.05,
+      mixed: positives.length > 0 && negatives.length > 0 ? 0.8 : 0.1,
+    },
+    ...(options.translate && language !== 'en' ? { translation: `Mock English translation of: ${text}` } : {}),
+  };
+};
+
+const analyzeText = async (text: string, options?: AnalysisOptions): Promise<AnalysisResult> => {
+  await delay(300);
+  return mockAnalyze(text, options);
+};
+
+// Length of a PCM WAV clip read from its header, or null for other formats
+const wavDuration = (base64: string): number | null => {
+  try {
+    const header = atob(base64.slice(0, 60));
+    if (header.slice(0, 4) !== 'RIFF' || header.slice(8, 12) !== 'WAVE') return null;
+    const read = (offset: number, bytes: number) =>
+      Array.from({ length: bytes }, (_, i) => header.charCodeAt(offset + i) * 256 ** i).reduce((a, b) => a + b, 0);
+    const bytesPerSecond = read(28, 4);
+    const dataBytes = Math.floor(base64.length * 3 / 4) - 44;
+    return bytesPerSecond > 0 ? dataBytes / bytesPerSecond : null;
+  } catch {
+    return null;
+  }
+};
+
+// Spreads the words evenly over the clip, or at a steady speaking pace when its length is unknown
+const mockWords = (transcript: string, duration: number | null): TranscriptWord[] => {
+  const words = transcript.split(/\s+/).filter(Boolean);
+  const step = duration ? duration / words.length : 0.4;
+  return words.map((text, i) => ({ text, start: i * step, end: (i + 0.9) * step }));
+};
+
+const analyzeAudio = async (audio: string, _mimeType: string, options?: AnalysisOptions): Promise<AnalysisResult> => {
+  await delay(600);
+  const transcript = 'Mock transcript of the uploaded audio clip.';
+  return { ...mockAnalyze(transcript, options), words: mockWords(transcript, wavDuration(audio)) };
+};
+
+export const mockProvider: SentimentProvider = {
+  id: 'mock',
+  label: 'Mock (Demo)',
+  description: 'Canned, deterministic responses for demos and UI development.',
+  supportsAudio: true,
+  rateLimit: { concurrency: 8, requestsPerSecond: Infinity },
+  analyzeText,
+  analyzeAudio,
+  analyzeBatch: batchFromText(analyzeText),
+};
@@ -0,0 +1,49 @@
+import { SentimentProvider, isOfflineError, withFallback, withQueue, withValidation } from "./sentimentProvider";
+import { geminiProvider, isGeminiConfigured } from "./geminiService";
+import { lexiconProvider } from "./lexiconService";
+import { mockProvider } from "./mockProvider";
+import { createHttpProvider } from "./httpProvider";
+import { createRequestQueue } from "./requestQueue";
+
+export const DEFAULT_PROVIDER_ID = 'gemini';
+
+// Providers are stored already wrapped in response validation and their own request queue
+const registry = new Map<string, SentimentProvider>();
+
+export const registerProvider = (provider: SentimentProvider) => {
+  registry.set(provider.id, withQueue(withValidation(provider), createRequestQueue(provider.rateLimit)));
+};
+
+export const unregisterProvider = (id: string) => {
+  registry.delete(id);
+};
+
+export const listProviders = (): SentimentProvider[] => Array.from(registry.values());
+
+// Falls back to the default provider so a stale id (e.g. from localStorage) never breaks the UI
+export const getProvider = (id: string): SentimentProvider => {
+  const provider = registry.get(id) || registry.get(DEFAULT_PROVIDER_ID);
+  if (!provider) {
+    throw new Error(`No sentiment provider registered for "${id}".`);
+  }
+  return provider;
+};
+
+// --- Built-in providers ---
+
+// Gemini degrades to the offline lexicon engine when no API key is set or the network is down
+registerProvider(withFallback(
+  geminiProvider,
+  lexiconProvider,
+  (error) => !isGeminiConfigured() || isOfflineError(error)
+));
+registerProvider(lexiconProvider);
+registerProvider(mockProvider);
+
+if (process.env.SENTIMENT_API_URL) {
+  registerProvider(createHttpProvider({
+    id: 'http',
+    label: 'HTTP Endpoint',
+    baseUrl: process.env.SENTIMENT_API_URL,
+  }));
+}
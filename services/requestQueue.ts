@@ -0,0 +1,209 @@
+/**
+ * Shared job queue for outbound analysis requests. Limits how many requests
+ * run at once, paces them with a token bucket, retries 429/5xx responses with
+ * exponential backoff, and supports cancellation through AbortSignal.
+ */
+
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobEvent {
+  jobId: number;
+  status: JobStatus;
+  attempt: number;
+  // Backoff about to be waited; set for 'retrying' only
+  retryInMs?: number;
+  error?: unknown;
+}
+
+export interface RequestQueueOptions {
+  concurrency: number;
+  // Token bucket: sustained rate and burst size. Infinity disables rate limiting.
+  requestsPerSecond: number;
+  burst: number;
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface EnqueueOptions {
+  signal?: AbortSignal;
+  onEvent?: (event: JobEvent) => void;
+}
+
+export interface RequestQueue {
+  enqueue: <T>(task: (signal: AbortSignal) => Promise<T>, options?: EnqueueOptions) => Promise<T>;
+  subscribe: (listener: (event: JobEvent) => void) => () => void;
+  readonly pending: number;
+  readonly running: number;
+}
+
+export const DEFAULT_QUEUE_OPTIONS: RequestQueueOptions = {
+  concurrency: 3,
+  requestsPerSecond: 2,
+  burst: 5,
+  maxRetries: 4,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Reads an HTTP status from an error or its cause (Gemini's ApiError and ProviderRequestError both expose `status`)
+const getErrorStatus = (error: unknown): number | undefined => {
+  let current: unknown = error;
+  while (typeof current === 'object' && current !== null) {
+    if ('status' in current && typeof current.status === 'number') return current.status;
+    current = 'cause' in current ? current.cause : undefined;
+  }
+  return undefined;
+};
+
+export const isRetryableError = (error: unknown): boolean => {
+  const status = getErrorStatus(error);
+  return status === 429 || (status !== undefined && status >= 500);
+};
+
+export const isAbortError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+const abortError = () => new DOMException('The operation was aborted.', 'AbortError');
+
+// setTimeout that rejects as soon as the signal aborts
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) return reject(abortError());
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(abortError());
+  };
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+export const createRequestQueue = (overrides: Partial<RequestQueueOptions> = {}): RequestQueue => {
+  const options = { ...DEFAULT_QUEUE_OPTIONS, ...overrides };
+  const listeners = new Set<(event: JobEvent) => void>();
+  const waiting: Array<() => Promise<void>> = [];
+  let running = 0;
+  let nextId = 1;
+
+  // --- Token bucket ---
+  let tokens = options.burst;
+  let lastRefill = Date.now();
+
+  const acquireToken = async (signal?: AbortSignal) => {
+    if (!Number.isFinite(options.requestsPerSecond)) return;
+    for (;;) {
+      const now = Date.now();
+      tokens = Math.min(options.burst, tokens + ((now - lastRefill) / 1000) * options.requestsPerSecond);
+      lastRefill = now;
+      if (tokens >= 1) {
+        tokens -= 1;
+        return;
+      }
+      await sleep(((1 - tokens) / options.requestsPerSecond) * 1000, signal);
+    }
+  };
+
+  const backoffDelay = (attempt: number) => {
+    const exponential = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** (attempt - 1));
+    // Jitter keeps many queued jobs from retrying in lockstep
+    return Math.round(exponential / 2 + Math.random() * exponential / 2);
+  };
+
+  const pump = () => {
+    while (running < options.concurrency && waiting.length > 0) {
+      const job = waiting.shift()!;
+      running++;
+      job().finally(() => {
+        running--;
+        pump();
+      });
+    }
+  };
+
+  const enqueue = <T>(task: (signal: AbortSignal) => Promise<T>, { signal, onEvent }: EnqueueOptions = {}): Promise<T> => {
+    const id = nextId++;
+    const emit = (event: Omit<JobEvent, 'jobId'>) => {
+      const full = { jobId: id, ...event };
+      onEvent?.(full);
+      listeners.forEach(listener => listener(full));
+    };
+
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        emit({ status: 'cancelled', attempt: 0 });
+        return reject(abortError());
+      }
+
+      // Tasks get their own controller so an abort also cancels the in-flight attempt
+      const controller = new AbortController();
+
+      const cancel = () => {
+        emit({ status: 'cancelled', attempt: 0 });
+        reject(abortError());
+      };
+
+      const run = async () => {
+        let attempt = 0;
+        try {
+          for (;;) {
+            attempt++;
+            await acquireToken(controller.signal);
+            emit({ status: 'running', attempt });
+            try {
+              const value = await task(controller.signal);
+              emit({ status: 'succeeded', attempt });
+              resolve(value);
+              return;
+            } catch (error) {
+              if (controller.signal.aborted) throw abortError();
+              if (!isRetryableError(error) || attempt > options.maxRetries) throw error;
+              const retryInMs = backoffDelay(attempt);
+              emit({ status: 'retrying', attempt, retryInMs, error });
+              await sleep(retryInMs, controller.signal);
+            }
+          }
+        } catch (error) {
+          if (isAbortError(error)) {
+            emit({ status: 'cancelled', attempt });
+          } else {
+            emit({ status: 'failed', attempt, error });
+          }
+          reject(error);
+        } finally {
+          signal?.removeEventListener('abort', onAbort);
+        }
+      };
+
+      const onAbort = () => {
+        controller.abort();
+        // Jobs that never started are dropped from the queue right away
+        const index = waiting.indexOf(run);
+        if (index >= 0) {
+          waiting.splice(index, 1);
+          cancel();
+        }
+      };
+      signal?.addEventListener('abort', onAbort, { once: true });
+
+      emit({ status: 'queued', attempt: 0 });
+      waiting.push(run);
+      pump();
+    });
+  };
+
+  const subscribe = (listener: (event: JobEvent) => void) => {
+    listeners.add(listener);
+    return () => {
+      listeners.delete(listener);
+    };
+  };
+
+  return {
+    enqueue,
+    subscribe,
+    get pending() { return waiting.length; },
+    get running() { return running; },
+  };
+};
@@ -0,0 +1,40 @@
+import { AnalysisResult } from "../types";
+
+/**
+ * Decides when a result should go to a human instead of being trusted:
+ * likely sarcasm or irony, mixed sentiment, or a low confidence score.
+ */
+
+export type ReviewFlagKind = 'sarcasm' | 'mixed' | 'lowConfidence';
+
+export interface ReviewFlag {
+  kind: ReviewFlagKind;
+  // How sure we are that the condition applies, 0..1
+  confidence: number;
+}
+
+export const REVIEW_FLAG_LABELS: Record<ReviewFlagKind, string> = {
+  sarcasm: 'Sarcasm / irony',
+  mixed: 'Mixed sentiment',
+  lowConfidence: 'Low confidence',
+};
+
+// Signals at or above this probability raise a flag
+export const SIGNAL_THRESHOLD = 0.5;
+// Scores below this raise the low-confidence flag
+export const LOW_CONFIDENCE_SCORE = 0.6;
+
+export const getReviewFlags = (result: AnalysisResult): ReviewFlag[] => {
+  const flags: ReviewFlag[] = [];
+  const { sarcasm, mixed } = result.signals ?? {};
+  if (sarcasm !== undefined && sarcasm >= SIGNAL_THRESHOLD) flags.push({ kind: 'sarcasm', confidence: sarcasm });
+  if (mixed !== undefined && mixed >= SIGNAL_THRESHOLD) flags.push({ kind: 'mixed', confidence: mixed });
+  if (result.score < LOW_CONFIDENCE_SCORE) flags.push({ kind: 'lowConfidence', confidence: 1 - result.score });
+  return flags;
+};
+
+export const needsReview = (result: AnalysisResult | undefined) =>
+  !!result && getReviewFlags(result).length > 0;
+
+export const describeReviewFlags = (flags: ReviewFlag[]) =>
+  flags.map(f => `${REVIEW_FLAG_LABELS[f.kind]} (${(f.confidence * 100).toFixed(0)}%)`).join(', ');
@@ -0,0 +1,142 @@
+import { AnalysisResult } from "../types";
+
+/**
+ * Splits a decoded recording into segments for per-segment analysis, either
+ * on pauses found by energy-based voice activity detection or at fixed
+ * windows. Segments are plain time ranges that audioBufferToWav can slice.
+ */
+
+export interface AudioSegment {
+  // Seconds from the start of the recording
+  start: number;
+  end: number;
+}
+
+// A segment's place in an analysis run; results arrive in completion order
+export interface SegmentAnalysis {
+  segment: AudioSegment;
+  status: 'pending' | 'done' | 'error';
+  result?: AnalysisResult;
+  error?: unknown;
+}
+
+export type SegmentationMethod = 'silence' | 'window';
+
+export interface SilenceOptions {
+  // Length of the frames energy is measured over
+  frameSeconds: number;
+  // Pauses shorter than this don't end a segment
+  minSilence: number;
+  // Voiced runs shorter than this are treated as clicks and dropped
+  minSegment: number;
+  // Longer segments are split evenly so each stays a reasonable request
+  maxSegment: number;
+  // Added around each segment so word onsets and tails aren't clipped
+  padding: number;
+}
+
+export const DEFAULT_SILENCE_OPTIONS: SilenceOptions = {
+  frameSeconds: 0.03,
+  minSilence: 0.6,
+  minSegment: 0.4,
+  maxSegment: 30,
+  padding: 0.15,
+};
+
+export const WINDOW_LENGTHS = [10, 15, 30, 60];
+
+// Requests per run are capped; longer recordings only get their first segments analyzed
+export const MAX_SEGMENTS = 200;
+
+// Below this RMS a recording is considered silent throughout
+const MIN_SPEECH_RMS = 0.005;
+
+// RMS per frame, averaged across channels
+export const frameEnergies = (buffer: AudioBuffer, frameSeconds: number): Float32Array => {
+  const frameLength = Math.max(1, Math.round(frameSeconds * buffer.sampleRate));
+  const frames = Math.ceil(buffer.length / frameLength);
+  const energies = new Float32Array(frames);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const data = buffer.getChannelData(c);
+    for (let f = 0; f < frames; f++) {
+      const from = f * frameLength;
+      const to = Math.min(from + frameLength, data.length);
+      let sum = 0;
+      for (let i = from; i < to; i++) sum += data[i] * data[i];
+      energies[f] += Math.sqrt(sum / Math.max(1, to - from)) / buffer.numberOfChannels;
+    }
+  }
+  return energies;
+};
+
+const percentile = (sorted: Float32Array, p: number) =>
+  sorted[Math.min(sorted.length - 1, Math.floor(p * sorted.length))];
+
+// Cuts segments longer than `max` into equal parts
+const splitLong = (segments: AudioSegment[], max: number): AudioSegment[] =>
+  segments.flatMap(({ start, end }) => {
+    const parts = Math.ceil((end - start) / max);
+    if (parts <= 1) return [{ start, end }];
+    const length = (end - start) / parts;
+    return Array.from({ length: parts }, (_, i) => ({ start: start + i * length, end: i === parts - 1 ? end : start + (i + 1) * length }));
+  });
+
+/**
+ * Finds speech by comparing each frame's energy to a threshold set between
+ * the recording's noise floor and its loud passages, so quiet phone audio
+ * and loud studio audio segment alike.
+ */
+export const segmentBySilence = (buffer: AudioBuffer, overrides: Partial<SilenceOptions> = {}): AudioSegment[] => {
+  const options = { ...DEFAULT_SILENCE_OPTIONS, ...overrides };
+  const energies = frameEnergies(buffer, options.frameSeconds);
+  if (energies.length === 0) return [];
+
+  const sorted = Float32Array.from(energies).sort();
+  const noiseFloor = percentile(sorted, 0.1);
+  const loud = percentile(sorted, 0.95);
+  if (loud < MIN_SPEECH_RMS) return [];
+  const threshold = Math.max(MIN_SPEECH_RMS, noiseFloor + (loud - noiseFloor) * 0.1);
+
+  const frameSeconds = buffer.length / buffer.sampleRate / energies.length;
+  const runs: AudioSegment[] = [];
+  let runStart = -1;
+  for (let f = 0; f <= energies.length; f++) {
+    const voiced = f < energies.length && energies[f] >= threshold;
+    if (voiced && runStart < 0) runStart = f;
+    if (!voiced && runStart >= 0) {
+      runs.push({ start: runStart * frameSeconds, end: f * frameSeconds });
+      runStart = -1;
+    }
+  }
+
+  // Bridge short pauses, then drop what is still too short to be speech
+  const merged: AudioSegment[] = [];
+  runs.forEach(run => {
+    const last = merged[merged.length - 1];
+    if (last && run.start - last.end < options.minSilence) last.end = run.end;
+    else merged.push({ ...run });
+  });
+  const speech = merged.filter(s => s.end - s.start >= options.minSegment);
+
+  // Pad without running into the neighbouring segments
+  const padded = speech.map((s, i) => ({
+    start: Math.max(0, i > 0 ? (speech[i - 1].end + s.start) / 2 : 0, s.start - options.padding),
+    end: Math.min(buffer.duration, i < speech.length - 1 ? (s.end + speech[i + 1].start) / 2 : buffer.duration, s.end + options.padding),
+  }));
+
+  return splitLong(padded, options.maxSegment);
+};
+
+// Back-to-back windows; a remainder under half a window joins the one before it
+export const segmentByWindow = (duration: number, windowSeconds: number): AudioSegment[] => {
+  const segments: AudioSegment[] = [];
+  for (let start = 0; start < duration; start += windowSeconds) {
+    segments.push({ start, end: Math.min(duration, start + windowSeconds) });
+  }
+  const last = segments[segments.length - 1];
+  if (segments.length > 1 && last.end - last.start < windowSeconds / 2) {
+    segments.pop();
+    segments[segments.length - 1].end = duration;
+  }
+  return segments;
+};
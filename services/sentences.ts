@@ -0,0 +1,80 @@
+import { AnalysisResult, SentenceSentiment, SentimentType } from "../types";
+
+/**
+ * Sentence segmentation for the sentence timeline. Offsets refer to the
+ * original text so the UI can render it unchanged, with each sentence
+ * wrapped in its own element.
+ */
+
+export interface TextSegment {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Long documents are grouped into at most this many segments so one analysis doesn't fan out into thousands of requests
+export const MAX_TIMELINE_SEGMENTS = 100;
+
+const FALLBACK_SENTENCE = /[^.!?\n]+(?:[.!?]+["')\]]*|\n+|$)/g;
+
+const trimSegment = (text: string, start: number): TextSegment | null => {
+  const leading = text.length - text.trimStart().length;
+  const trimmed = text.trim();
+  if (!trimmed) return null;
+  return { text: trimmed, start: start + leading, end: start + leading + trimmed.length };
+};
+
+export const splitSentences = (text: string): TextSegment[] => {
+  const segments: TextSegment[] = [];
+  if (typeof Intl !== 'undefined' && 'Segmenter' in Intl) {
+    const segmenter = new Intl.Segmenter(undefined, { granularity: 'sentence' });
+    for (const { segment, index } of segmenter.segment(text)) {
+      // The segmenter keeps line breaks inside a sentence; split on them so list items and paragraphs stand alone
+      let offset = index;
+      segment.split(/(\n+)/).forEach(part => {
+        const trimmed = trimSegment(part, offset);
+        if (trimmed) segments.push(trimmed);
+        offset += part.length;
+      });
+    }
+    return segments;
+  }
+
+  for (const match of text.matchAll(FALLBACK_SENTENCE)) {
+    const trimmed = trimSegment(match[0], match.index!);
+    if (trimmed) segments.push(trimmed);
+  }
+  return segments;
+};
+
+// Merges neighbouring segments until there are at most `max`, keeping their spans contiguous
+export const groupSegments = (text: string, segments: TextSegment[], max = MAX_TIMELINE_SEGMENTS): TextSegment[] => {
+  if (segments.length <= max) return segments;
+  const size = Math.ceil(segments.length / max);
+  const groups: TextSegment[] = [];
+  for (let i = 0; i < segments.length; i += size) {
+    const first = segments[i];
+    const last = segments[Math.min(i + size, segments.length) - 1];
+    groups.push({ text: text.slice(first.start, last.end), start: first.start, end: last.end });
+  }
+  return groups;
+};
+
+// `failed` holds the indexes whose analysis failed and came back as a placeholder result
+export const toSentenceSentiments = (
+  segments: TextSegment[],
+  results: AnalysisResult[],
+  failed: ReadonlySet<number> = new Set()
+): SentenceSentiment[] =>
+  segments.map((segment, i) => ({
+    ...segment,
+    sentiment: results[i].sentiment,
+    score: results[i].score,
+    ...(failed.has(i) ? { failed: true } : {}),
+  }));
+
+// +score for Positive, -score for Negative, 0 for Neutral
+export const signedSentenceScore = (sentence: SentenceSentiment) =>
+  sentence.sentiment === SentimentType.POSITIVE ? sentence.score
+    : sentence.sentiment === SentimentType.NEGATIVE ? -sentence.score
+    : 0;
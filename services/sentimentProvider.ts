@@ -0,0 +1,160 @@
+import { AnalysisResult, EmotionTaxonomy, SentimentType } from "../types";
+import { JobEvent, RequestQueue, RequestQueueOptions, isAbortError } from "./requestQueue";
+import { validateAnalysisResult } from "./validation";
+
+// Optional analyses requested on top of the core result; providers ignore what they can't produce
+export interface AnalysisOptions {
+  // Break the input down into aspects, each with its own sentiment
+  aspects?: boolean;
+  // Score the input against this emotion taxonomy as a probability distribution
+  emotions?: EmotionTaxonomy;
+  // Add an English translation of non-English input
+  translate?: boolean;
+  // ISO 639-1 code of the language the explanation should be written in
+  explanationLanguage?: string;
+  // Cancels the request; providers that can't cancel in flight simply ignore it
+  signal?: AbortSignal;
+}
+
+export interface BatchOptions extends AnalysisOptions {
+  // Called as each row finishes, in completion order
+  onResult?: (index: number, result: AnalysisResult) => void;
+  onJobEvent?: (index: number, event: JobEvent) => void;
+}
+
+/**
+ * A backend capable of producing AnalysisResults. The Gemini client is one
+ * implementation; others (local models, HTTP endpoints, mocks) are registered
+ * in providerRegistry and selected at runtime via SentimentProviderContext.
+ */
+export interface SentimentProvider {
+  id: string;
+  label: string;
+  description: string;
+  supportsAudio: boolean;
+  // Overrides for the provider's request queue; remote backends keep the conservative defaults
+  rateLimit?: Partial<RequestQueueOptions>;
+  analyzeText: (text: string, options?: AnalysisOptions) => Promise<AnalysisResult>;
+  analyzeAudio: (base64Audio: string, mimeType: string, options?: AnalysisOptions) => Promise<AnalysisResult>;
+  analyzeBatch: (texts: string[], options?: BatchOptions) => Promise<AnalysisResult[]>;
+}
+
+// Row-level fallback used by batch implementations so one bad row doesn't fail the whole run
+export const errorResult = (text: string): AnalysisResult => ({
+  sentiment: SentimentType.NEUTRAL,
+  score: 0,
+  keywords: [],
+  explanation: "Error processing this row.",
+  transcript: text,
+  emergencyCategory: 'None'
+});
+
+type AnalyzeText = SentimentProvider['analyzeText'];
+
+// Generic batch implementation for providers that only know how to analyze one text at a time
+export const batchFromText = (analyzeText: AnalyzeText) =>
+  async (texts: string[], { signal, onResult, onJobEvent, ...options }: BatchOptions = {}): Promise<AnalysisResult[]> =>
+    Promise.all(texts.map(async (text, index) => {
+      let result: AnalysisResult;
+      try {
+        result = await analyzeText(text, { ...options, signal });
+      } catch (e) {
+        result = errorResult(text);
+      }
+      if (!signal?.aborted) onResult?.(index, result);
+      return result;
+    }));
+
+// True for failures caused by missing connectivity rather than by the backend itself
+export const isOfflineError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  const cause = error instanceof Error && error.cause ? error.cause : error;
+  // fetch() rejects with a TypeError when the request never reaches the server
+  return cause instanceof TypeError;
+};
+
+/**
+ * Wraps a provider so that text analysis is retried on `fallback` whenever
+ * `shouldFallback` accepts the primary's error. Audio stays on the primary,
+ * since fallbacks are not expected to transcribe.
+ */
+export const withFallback = (
+  primary: SentimentProvider,
+  fallback: SentimentProvider,
+  shouldFallback: (error: unknown) => boolean
+): SentimentProvider => {
+  const analyzeText: AnalyzeText = async (text, options) => {
+    try {
+      return await primary.analyzeText(text, options);
+    } catch (error) {
+      if (isAbortError(error) || !shouldFallback(error)) throw error;
+      console.warn(`${primary.label} unavailable, falling back to ${fallback.label}.`, error);
+      return fallback.analyzeText(text, options);
+    }
+  };
+
+  return {
+    ...primary,
+    analyzeText,
+    analyzeBatch: batchFromText(analyzeText),
+  };
+};
+
+// Validates every response of a provider, so components can rely on the AnalysisResult shape
+export const withValidation = (provider: SentimentProvider): SentimentProvider => {
+  const analyzeText: AnalyzeText = async (text, options) =>
+    validateAnalysisResult(await provider.analyzeText(text, options));
+
+  return {
+    ...provider,
+    analyzeText,
+    analyzeAudio: async (base64Audio, mimeType, options) =>
+      validateAnalysisResult(await provider.analyzeAudio(base64Audio, mimeType, options)),
+    analyzeBatch: batchFromText(analyzeText),
+  };
+};
+
+// Fills in options the caller left unset, e.g. the user's explanation language
+export const withDefaultOptions = (provider: SentimentProvider, defaults: AnalysisOptions): SentimentProvider => {
+  const analyzeText: AnalyzeText = (text, options) => provider.analyzeText(text, { ...defaults, ...options });
+
+  return {
+    ...provider,
+    analyzeText,
+    analyzeAudio: (base64Audio, mimeType, options) =>
+      provider.analyzeAudio(base64Audio, mimeType, { ...defaults, ...options }),
+    analyzeBatch: (texts, options) => provider.analyzeBatch(texts, { ...defaults, ...options }),
+  };
+};
+
+/**
+ * Routes every call of a provider through a request queue. Batches are split
+ * into one job per row so that each row is rate limited, retried and
+ * reported on individually. Aborting a batch rejects with an AbortError.
+ */
+export const withQueue = (provider: SentimentProvider, queue: RequestQueue): SentimentProvider => {
+  // The caller's signal cancels the job; the provider gets the job's own signal so retries are cancelled too
+  const analyzeText: AnalyzeText = (text, { signal, ...options } = {}) =>
+    queue.enqueue((jobSignal) => provider.analyzeText(text, { ...options, signal: jobSignal }), { signal });
+
+  const analyzeAudio = (base64Audio: string, mimeType: string, { signal, ...options }: AnalysisOptions = {}) =>
+    queue.enqueue((jobSignal) => provider.analyzeAudio(base64Audio, mimeType, { ...options, signal: jobSignal }), { signal });
+
+  const analyzeBatch = async (texts: string[], { signal, onResult, onJobEvent, ...options }: BatchOptions = {}) =>
+    Promise.all(texts.map(async (text, index) => {
+      let result: AnalysisResult;
+      try {
+        result = await queue.enqueue((jobSignal) => provider.analyzeText(text, { ...options, signal: jobSignal }), {
+          signal,
+          onEvent: (event) => onJobEvent?.(index, event),
+        });
+      } catch (e) {
+        if (isAbortError(e)) throw e;
+        result = errorResult(text);
+      }
+      if (!signal?.aborted) onResult?.(index, result);
+      return result;
+    }));
+
+  return { ...provider, analyzeText, analyzeAudio, analyzeBatch };
+};
@@ -0,0 +1,33 @@
+import { TranscriptWord } from "../types";
+import { TextRange } from "./highlight";
+
+/**
+ * Ties timed transcript words back to the transcript string, so the text can
+ * be shown as written (punctuation, casing) while each word stays clickable.
+ */
+
+export interface AlignedWord extends TextRange {
+  // Index into the result's words
+  word: number;
+}
+
+// Finds each word in order after the previous one; words that can't be found are left out
+export const alignWords = (transcript: string, words: TranscriptWord[]): AlignedWord[] => {
+  const haystack = transcript.toLowerCase();
+  const aligned: AlignedWord[] = [];
+  let cursor = 0;
+  words.forEach((w, word) => {
+    const start = haystack.indexOf(w.text.toLowerCase(), cursor);
+    if (start < 0) return;
+    aligned.push({ start, end: start + w.text.length, word });
+    cursor = start + w.text.length;
+  });
+  return aligned;
+};
+
+// The word being spoken at `time`, counting the pause after a word as part of it; -1 before the first word
+export const wordIndexAt = (words: TranscriptWord[], time: number): number => {
+  let index = -1;
+  for (let i = 0; i < words.length && words[i].start <= time; i++) index = i;
+  return index;
+};
@@ -0,0 +1,193 @@
+import { DatasetRow, SentimentType } from "../types";
+
+/**
+ * Time-series aggregation of dataset results for rows with a mapped date
+ * column: per-bucket sentiment share, signed average score, a rolling
+ * average and spike detection for Negative and emergency rows.
+ */
+
+export type TrendBucket = 'hour' | 'day' | 'week' | 'month';
+
+export interface TrendPoint {
+  start: number;
+  label: string;
+  total: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  // Shares of the bucket total, 0..1
+  positiveShare: number;
+  negativeShare: number;
+  neutralShare: number;
+  // Signed score: +score for Positive, -score for Negative, 0 for Neutral; null for empty buckets
+  avgScore: number | null;
+  rollingAvgScore: number | null;
+  emergencies: number;
+  spike: 'negative' | 'emergency' | null;
+}
+
+export const TREND_BUCKET_LABELS: Record<TrendBucket, string> = {
+  hour: 'Hour',
+  day: 'Day',
+  week: 'Week',
+  month: 'Month',
+};
+
+// Gaps are only filled with empty buckets below this size, so hourly buckets over years stay manageable
+const MAX_FILLED_BUCKETS = 1000;
+// Minimum count before a bucket can be flagged, so one negative row in a quiet hour is not a "spike"
+const MIN_SPIKE_COUNT = 3;
+const SPIKE_Z_SCORE = 2;
+
+const NUMERIC_DATE = /^(\d{1,2})[-/.](\d{1,2})[-/.](\d{2}|\d{4})(?:[ T](\d{1,2}):(\d{2})(?::(\d{2}))?)?$/;
+
+/**
+ * Parses the date formats commonly found in exports: ISO 8601, Unix
+ * timestamps (seconds or milliseconds) and numeric day/month forms, read as
+ * month-first unless the first part cannot be a month.
+ */
+export const parseRowDate = (value: string | undefined): Date | null => {
+  if (!value) return null;
+  const text = value.trim();
+
+  if (/^\d{10}(\d{3})?$/.test(text)) {
+    const epoch = Number(text);
+    return new Date(text.length === 10 ? epoch * 1000 : epoch);
+  }
+
+  // Date.parse reads date-only ISO strings as UTC, which would shift them across local day buckets
+  const isoDate = /^(\d{4})-(\d{2})-(\d{2})$/.exec(text);
+  if (isoDate) {
+    return new Date(Number(isoDate[1]), Number(isoDate[2]) - 1, Number(isoDate[3]));
+  }
+
+  const numeric = NUMERIC_DATE.exec(text);
+  if (numeric) {
+    const [, a, b, y, hours, minutes, seconds] = numeric;
+    const dayFirst = Number(a) > 12;
+    const month = Number(dayFirst ? b : a);
+    const day = Number(dayFirst ? a : b);
+    const year = y.length === 2 ? 2000 + Number(y) : Number(y);
+    if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+    return new Date(year, month - 1, day, Number(hours || 0), Number(minutes || 0), Number(seconds || 0));
+  }
+
+  const parsed = Date.parse(text);
+  return isNaN(parsed) ? null : new Date(parsed);
+};
+
+const bucketStart = (date: Date, bucket: TrendBucket): Date => {
+  const d = new Date(date);
+  d.setMinutes(0, 0, 0);
+  if (bucket === 'hour') return d;
+  d.setHours(0);
+  if (bucket === 'week') {
+    // Weeks start on Monday
+    d.setDate(d.getDate() - ((d.getDay() + 6) % 7));
+  } else if (bucket === 'month') {
+    d.setDate(1);
+  }
+  return d;
+};
+
+const nextBucket = (date: Date, bucket: TrendBucket): Date => {
+  const d = new Date(date);
+  if (bucket === 'hour') d.setHours(d.getHours() + 1);
+  else if (bucket === 'day') d.setDate(d.getDate() + 1);
+  else if (bucket === 'week') d.setDate(d.getDate() + 7);
+  else d.setMonth(d.getMonth() + 1);
+  return d;
+};
+
+const formatBucket = (date: Date, bucket: TrendBucket) => {
+  switch (bucket) {
+    case 'hour':
+      return date.toLocaleString(undefined, { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+    case 'month':
+      return date.toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+    default:
+      return date.toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: '2-digit' });
+  }
+};
+
+// Number of analyzed rows whose date column could be parsed
+export const countDatedRows = (rows: DatasetRow[]) =>
+  rows.filter(row => row.result && parseRowDate(row.metadata?.date)).length;
+
+const signedScore = (row: DatasetRow) => {
+  const { sentiment, score } = row.result!;
+  return sentiment === SentimentType.POSITIVE ? score : sentiment === SentimentType.NEGATIVE ? -score : 0;
+};
+
+// Flags indices whose value is well above the mean of all buckets
+const findOutliers = (values: number[]): Set<number> => {
+  const mean = values.reduce((sum, v) => sum + v, 0) / (values.length || 1);
+  const std = Math.sqrt(values.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (values.length || 1));
+  const outliers = new Set<number>();
+  values.forEach((value, i) => {
+    if (value >= MIN_SPIKE_COUNT && value > mean + SPIKE_Z_SCORE * std) outliers.add(i);
+  });
+  return outliers;
+};
+
+export const buildTrendSeries = (rows: DatasetRow[], bucket: TrendBucket, rollingWindow: number): TrendPoint[] => {
+  const groups = new Map<number, { rows: DatasetRow[]; date: Date }>();
+  rows.forEach(row => {
+    if (!row.result) return;
+    const date = parseRowDate(row.metadata?.date);
+    if (!date) return;
+    const start = bucketStart(date, bucket);
+    const group = groups.get(start.getTime());
+    if (group) group.rows.push(row);
+    else groups.set(start.getTime(), { rows: [row], date: start });
+  });
+  if (groups.size === 0) return [];
+
+  const starts = [...groups.keys()].sort((a, b) => a - b);
+  // Fill empty buckets so the time axis is continuous
+  let timeline: Date[] = starts.map(start => groups.get(start)!.date);
+  const filled: Date[] = [];
+  for (let d = timeline[0]; d.getTime() <= starts[starts.length - 1] && filled.length <= MAX_FILLED_BUCKETS; d = nextBucket(d, bucket)) {
+    filled.push(d);
+  }
+  if (filled.length <= MAX_FILLED_BUCKETS) timeline = filled;
+
+  const points: TrendPoint[] = timeline.map(date => {
+    const bucketRows = groups.get(date.getTime())?.rows ?? [];
+    const count = (sentiment: SentimentType) => bucketRows.filter(r => r.result!.sentiment === sentiment).length;
+    const total = bucketRows.length;
+    const positive = count(SentimentType.POSITIVE);
+    const negative = count(SentimentType.NEGATIVE);
+    const neutral = count(SentimentType.NEUTRAL);
+    return {
+      start: date.getTime(),
+      label: formatBucket(date, bucket),
+      total,
+      positive,
+      negative,
+      neutral,
+      positiveShare: total ? positive / total : 0,
+      negativeShare: total ? negative / total : 0,
+      neutralShare: total ? neutral / total : 0,
+      avgScore: total ? bucketRows.reduce((sum, r) => sum + signedScore(r), 0) / total : null,
+      rollingAvgScore: null,
+      emergencies: bucketRows.filter(r => r.result!.emergencyCategory !== 'None').length,
+      spike: null,
+    };
+  });
+
+  // Trailing rolling average, weighted by bucket size so sparse buckets don't dominate
+  points.forEach((point, i) => {
+    const window = points.slice(Math.max(0, i - rollingWindow + 1), i + 1).filter(p => p.total > 0);
+    const total = window.reduce((sum, p) => sum + p.total, 0);
+    point.rollingAvgScore = total ? window.reduce((sum, p) => sum + (p.avgScore ?? 0) * p.total, 0) / total : null;
+  });
+
+  const emergencySpikes = findOutliers(points.map(p => p.emergencies));
+  const negativeSpikes = findOutliers(points.map(p => p.negative));
+  points.forEach((point, i) => {
+    point.spike = emergencySpikes.has(i) ? 'emergency' : negativeSpikes.has(i) ? 'negative' : null;
+  });
+
+  return points;
+};
@@ -0,0 +1,188 @@
+import { AnalysisResult, AspectSentiment, EmergencyCategory, EmotionScore, ReviewSignals, SentimentType, TranscriptWord } from "../types";
+import { ModelOutputError } from "./errors";
+import { normalizeLanguageCode } from "./languages";
+
+const SENTIMENTS: SentimentType[] = [SentimentType.POSITIVE, SentimentType.NEGATIVE, SentimentType.NEUTRAL];
+const EMERGENCY_CATEGORIES: EmergencyCategory[] = ['Health', 'Safety', 'General', 'None'];
+
+// Case-insensitive lookup so "positive" or "HEALTH" map onto the canonical values
+const matchEnum = <T extends string>(field: string, value: unknown, allowed: T[]): T => {
+  if (typeof value !== 'string') {
+    throw new ModelOutputError(field, `must be one of ${allowed.join(', ')}`, value);
+  }
+  const match = allowed.find(a => a.toLowerCase() === value.trim().toLowerCase());
+  if (!match) {
+    throw new ModelOutputError(field, `must be one of ${allowed.join(', ')}`, value);
+  }
+  return match;
+};
+
+const requireString = (field: string, value: unknown): string => {
+  if (typeof value !== 'string') {
+    throw new ModelOutputError(field, 'must be a string', value);
+  }
+  return value;
+};
+
+const toScore = (value: unknown, field = 'score'): number => {
+  const score = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof score !== 'number' || !Number.isFinite(score)) {
+    throw new ModelOutputError(field, 'must be a number', value);
+  }
+  return Math.min(1, Math.max(0, score));
+};
+
+const toKeywords = (value: unknown): string[] => {
+  if (!Array.isArray(value)) {
+    throw new ModelOutputError('keywords', 'must be an array of strings', value);
+  }
+  return value
+    .filter((k): k is string | number => typeof k === 'string' || typeof k === 'number')
+    .map(k => String(k).trim())
+    .filter(k => k.length > 0);
+};
+
+const toAspects = (value: unknown): AspectSentiment[] => {
+  if (!Array.isArray(value)) {
+    throw new ModelOutputError('aspects', 'must be an array', value);
+  }
+  return value.map((item, i) => {
+    if (typeof item !== 'object' || item === null) {
+      throw new ModelOutputError(`aspects[${i}]`, 'must be an object', item);
+    }
+    const aspect = item as Record<string, unknown>;
+    return {
+      aspect: requireString(`aspects[${i}].aspect`, aspect.aspect).trim(),
+      sentiment: matchEnum(`aspects[${i}].sentiment`, aspect.sentiment, SENTIMENTS),
+      score: toScore(aspect.score, `aspects[${i}].score`),
+      span: typeof aspect.span === 'string' ? aspect.span.trim() : '',
+    };
+  }).filter(a => a.aspect.length > 0);
+};
+
+// Merges repeated emotions and rescales the distribution so it sums to 1
+const toEmotions = (value: unknown): EmotionScore[] => {
+  if (!Array.isArray(value)) {
+    throw new ModelOutputError('emotions', 'must be an array', value);
+  }
+  const totals = new Map<string, number>();
+  value.forEach((item, i) => {
+    if (typeof item !== 'object' || item === null) {
+      throw new ModelOutputError(`emotions[${i}]`, 'must be an object', item);
+    }
+    const entry = item as Record<string, unknown>;
+    const emotion = requireString(`emotions[${i}].emotion`, entry.emotion).trim().toLowerCase();
+    if (!emotion) return;
+    totals.set(emotion, (totals.get(emotion) || 0) + toScore(entry.probability, `emotions[${i}].probability`));
+  });
+
+  const sum = [...totals.values()].reduce((a, b) => a + b, 0);
+  return [...totals.entries()].map(([emotion, probability]) => ({
+    emotion,
+    probability: sum > 0 ? probability / sum : 0,
+  }));
+};
+
+const toSignals = (value: unknown): ReviewSignals => {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ModelOutputError('signals', 'must be an object', value);
+  }
+  const input = value as Record<string, unknown>;
+  const signals: ReviewSignals = {};
+  if (input.sarcasm !== undefined && input.sarcasm !== null) signals.sarcasm = toScore(input.sarcasm, 'signals.sarcasm');
+  if (input.mixed !== undefined && input.mixed !== null) signals.mixed = toScore(input.mixed, 'signals.mixed');
+  return signals;
+};
+
+const toSeconds = (value: unknown, field: string): number => {
+  const seconds = typeof value === 'string' ? parseFloat(value) : value;
+  if (typeof seconds !== 'number' || !Number.isFinite(seconds)) {
+    throw new ModelOutputError(field, 'must be a number of seconds', value);
+  }
+  return Math.max(0, seconds);
+};
+
+// Drops empty words, fixes reversed ranges and puts the words in time order
+const toWords = (value: unknown): TranscriptWord[] => {
+  if (!Array.isArray(value)) {
+    throw new ModelOutputError('words', 'must be an array', value);
+  }
+  return value.map((item, i) => {
+    if (typeof item !== 'object' || item === null) {
+      throw new ModelOutputError(`words[${i}]`, 'must be an object', item);
+    }
+    const word = item as Record<string, unknown>;
+    const start = toSeconds(word.start, `words[${i}].start`);
+    const end = toSeconds(word.end, `words[${i}].end`);
+    return {
+      text: requireString(`words[${i}].text`, word.text).trim(),
+      start: Math.min(start, end),
+      end: Math.max(start, end),
+    };
+  })
+    .filter(w => w.text.length > 0)
+    .sort((a, b) => a.start - b.start);
+};
+
+/**
+ * Checks a provider payload against the AnalysisResult shape and returns a
+ * normalised copy: score clamped into 0..1, enum casing fixed, keywords
+ * trimmed. Throws ModelOutputError naming the first field that fails.
+ */
+export const validateAnalysisResult = (raw: unknown): AnalysisResult => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new ModelOutputError('(root)', 'must be a JSON object', raw);
+  }
+  const input = raw as Record<string, unknown>;
+
+  const result: AnalysisResult = {
+    sentiment: matchEnum('sentiment', input.sentiment, SENTIMENTS),
+    score: toScore(input.score),
+    keywords: toKeywords(input.keywords),
+    explanation: requireString('explanation', input.explanation),
+    emergencyCategory: input.emergencyCategory === undefined
+      ? 'None'
+      : matchEnum('emergencyCategory', input.emergencyCategory, EMERGENCY_CATEGORIES),
+  };
+
+  if (input.transcript !== undefined && input.transcript !== null) {
+    result.transcript = requireString('transcript', input.transcript);
+  }
+  if (input.aspects !== undefined && input.aspects !== null) {
+    result.aspects = toAspects(input.aspects);
+  }
+  if (input.emotions !== undefined && input.emotions !== null) {
+    result.emotions = toEmotions(input.emotions);
+  }
+  if (input.language !== undefined && input.language !== null) {
+    result.language = normalizeLanguageCode(requireString('language', input.language));
+  }
+  if (input.signals !== undefined && input.signals !== null) {
+    result.signals = toSignals(input.signals);
+  }
+  if (input.words !== undefined && input.words !== null) {
+    result.words = toWords(input.words);
+  }
+  // Models return an empty translation for English input; that is the same as none
+  if (typeof input.translation === 'string' && input.translation.trim()) {
+    result.translation = input.translation.trim();
+  } else if (input.translation !== undefined && input.translation !== null && typeof input.translation !== 'string') {
+    throw new ModelOutputError('translation', 'must be a string', input.translation);
+  }
+
+  return result;
+};
+
+// Parses a raw model response body and validates it in one step
+export const parseModelJson = (text: string | undefined): AnalysisResult => {
+  if (!text || !text.trim()) {
+    throw new ModelOutputError('(root)', 'is empty');
+  }
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch (e) {
+    throw new ModelOutputError('(root)', 'is not valid JSON', text);
+  }
+  return validateAnalysisResult(parsed);
+};
@@ -6,6 +6,45 @@ export enum SentimentType {
 
 export type EmergencyCategory = 'Health' | 'Safety' | 'General' | 'None';
 
+// Sentiment towards one thing the input talks about, e.g. "delivery" in a restaurant review
+export interface AspectSentiment {
+  aspect: string;
+  sentiment: SentimentType;
+  score: number; // 0 to 1 confidence
+  span: string; // Supporting excerpt from the input
+}
+
+// Emotion sets the model can score; see services/emotions.ts for their members
+export type EmotionTaxonomy = 'ekman' | 'plutchik' | 'support';
+
+export interface EmotionScore {
+  emotion: string; // Lowercase member of the requested taxonomy
+  probability: number; // 0 to 1; the scores of one result sum to 1
+}
+
+// Score of one sentence of a longer text; offsets index into the analyzed input
+export interface SentenceSentiment {
+  text: string;
+  start: number;
+  end: number;
+  sentiment: SentimentType;
+  score: number; // 0 to 1 confidence
+  failed?: boolean; // Analysis of this sentence failed; sentiment and score are placeholders
+}
+
+// A word or short phrase of an audio transcript; times are seconds from the start of the analyzed clip
+export interface TranscriptWord {
+  text: string;
+  start: number;
+  end: number;
+}
+
+// Probabilities (0 to 1) of conditions that make the sentiment label unreliable
+export interface ReviewSignals {
+  sarcasm?: number; // Sarcasm or irony, where the literal wording says the opposite of what is meant
+  mixed?: number; // Clearly positive and clearly negative parts in the same input
+}
+
 export interface AnalysisResult {
   sentiment: SentimentType;
   score: number; // 0 to 1 confidence
@@ -13,15 +52,34 @@ export interface AnalysisResult {
   explanation: string;
   transcript?: string;
   emergencyCategory: EmergencyCategory;
+  aspects?: AspectSentiment[]; // Only present when aspect-based analysis was requested
+  emotions?: EmotionScore[]; // Only present when an emotion taxonomy was requested
+  sentences?: SentenceSentiment[]; // Added by the client in sentence timeline mode
+  language?: string; // Detected ISO 639-1 code of the input, e.g. 'hi'
+  translation?: string; // English translation, only when requested and the input isn't English
+  signals?: ReviewSignals;
+  words?: TranscriptWord[]; // Timed transcript words, in order; audio analyses only
+}
+
+// Columns carried over from the uploaded file alongside the analyzed text
+export interface DatasetMetadata {
+  sourceId?: string;
+  date?: string;
+  author?: string;
+  source?: string;
+  label?: string; // Ground-truth sentiment as written in the file
+  extra?: Record<string, string>; // Other mapped columns, keyed by header
 }
 
 export interface DatasetRow {
   id: number;
   text: string;
   result?: AnalysisResult;
+  metadata?: DatasetMetadata;
+  failed?: boolean; // The last attempt failed; the row has no result until it is retried
 }
 
-export type AnalyzerMode = 'text' | 'voice' | 'dataset';
+export type AnalyzerMode = 'text' | 'voice' | 'dataset' | 'compare';
 
 export interface ChartDataPoint {
   name: string;
@@ -38,4 +96,6 @@ export interface HistoryItem {
     input: any;
     result: any;
   };
+  audio?: Blob; // Trimmed WAV that was analyzed (voice mode only)
+  pinned?: boolean;
 }
\ No newline at end of file